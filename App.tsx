@@ -1,9 +1,23 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import ConfigForm from './components/ConfigForm';
 import InterviewSession from './components/InterviewSession';
 import ReportView from './components/ReportView';
-import { AppScreen, DeepResearchData, InterviewReport } from './types';
-import { generateReport } from './services/geminiService';
+import CampaignRoster from './components/CampaignRoster';
+import StudyLibrary from './components/StudyLibrary';
+import SynthesisView from './components/SynthesisView';
+import PersonaLab from './components/PersonaLab';
+import ObserverDashboard from './components/ObserverDashboard';
+import { AppScreen, Campaign, ConsentRecord, ContentOrigin, DeepResearchData, InterviewMode, InterviewRecording, InterviewReport, InterviewStyle, LaunchMode, ParticipantStatus, RegenerableSection, TranscriptTurn, Whisper } from './types';
+import { generateReport, generateSynthesis, regenerateReportSection, retryReportSections } from './services/geminiService';
+import { attachReport, createCampaign, findParticipantByToken, generateId, setParticipantLanguage, setParticipantStatus } from './services/campaignService';
+import { getParticipantConfig } from './utils/languageUtils';
+import { addReportVersion, createReportHistory, getRegenerableSectionLabel } from './utils/reportHistory';
+import { createStudyStore, InterviewRecord, purgeExpiredInterviews, StudyRecord } from './services/studyStore';
+
+const studyStore = createStudyStore();
+
+// Streaming transcripts update many times per second; batch writes to storage
+const LOG_SAVE_DELAY_MS = 1000;
 
 function App() {
   const [screen, setScreen] = useState<AppScreen>(AppScreen.CONFIG);
@@ -11,30 +25,211 @@ function App() {
   const [report, setReport] = useState<InterviewReport | null>(null);
   const [loadingReport, setLoadingReport] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Every submitted config is persisted as a study; demo studies have no participants
+  const [campaign, setCampaign] = useState<Campaign | null>(null);
+  const [activeParticipantId, setActiveParticipantId] = useState<string | null>(null);
+  const [returnToLibrary, setReturnToLibrary] = useState(false);
+  const [returnToRehearsal, setReturnToRehearsal] = useState(false);
+  const [observedSessionId, setObservedSessionId] = useState<string | null>(null);
+  // Nothing is read from or written to the library until expired interviews are gone
+  const [retentionApplied, setRetentionApplied] = useState(false);
+
+  const interviewRef = useRef<InterviewRecord | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Interview record whose completion is being handled, so a second call is ignored
+  const completedInterviewRef = useRef<string | null>(null);
+
+  const isCampaign = !!campaign && campaign.participants.length > 0;
+
+  // Persist the study whenever the campaign (participants, statuses, reports) changes
+  useEffect(() => {
+    if (!campaign || !retentionApplied) return;
+    studyStore.saveStudy({ ...campaign, updatedAt: Date.now() })
+      .catch(err => console.error("Failed to save study", err));
+  }, [campaign, retentionApplied]);
+
+  // Enforce study retention periods before anything is loaded
+  useEffect(() => {
+    purgeExpiredInterviews(studyStore)
+      .then(count => { if (count > 0) console.log(`Deleted ${count} interview(s) past their retention period`); })
+      .catch(err => console.error("Failed to apply retention settings", err))
+      .finally(() => setRetentionApplied(true));
+  }, []);
+
+  // "?observe=<interviewId>" opens the observer view for a session running in another window
+  useEffect(() => {
+    const sessionId = new URLSearchParams(window.location.search).get('observe');
+    if (!sessionId) return;
+    setObservedSessionId(sessionId);
+    setScreen(AppScreen.OBSERVER);
+  }, []);
+
+  // Resolve "?invite=<token>" links from the campaign roster
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('invite');
+    if (!token || !retentionApplied) return;
+    (async () => {
+      const studies = await studyStore.listStudies();
+      for (const study of studies) {
+        const participant = findParticipantByToken(study, token);
+        if (participant) {
+          setConfig(study.config);
+          setCampaign(setParticipantStatus(study, participant.id, ParticipantStatus.JOINED));
+          setScreen(AppScreen.EMAIL_SIMULATION);
+          return;
+        }
+      }
+      setError("This invite link is not recognised in this browser.");
+    })().catch(err => console.error("Failed to resolve invite link", err));
+  }, [retentionApplied]);
+
+  const saveInterview = async (patch: Partial<InterviewRecord> = {}) => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    if (!interviewRef.current) return;
+    interviewRef.current = { ...interviewRef.current, ...patch, updatedAt: Date.now() };
+    try {
+      await studyStore.saveInterview(interviewRef.current);
+    } catch (err) {
+      console.error("Failed to save interview", err);
+    }
+  };
+
+  const beginInterview = (study: Campaign, participantId: string | null) => {
+    const now = Date.now();
+    interviewRef.current = {
+      id: generateId(8),
+      studyId: study.id,
+      participantId,
+      transcript: [],
+      report: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    setConfig(getParticipantConfig(study, participantId));
+    setActiveParticipantId(participantId);
+    setReport(null);
+    setError(null);
+    setReturnToLibrary(false);
+    setReturnToRehearsal(false);
+    setScreen(AppScreen.INTERVIEW);
+  };
+
+  const handleTranscriptChange = (transcript: TranscriptTurn[]) => {
+    if (!interviewRef.current) return;
+    interviewRef.current = { ...interviewRef.current, transcript };
+    if (!saveTimerRef.current) {
+      saveTimerRef.current = setTimeout(() => void saveInterview(), LOG_SAVE_DELAY_MS);
+    }
+  };
+
+  const handleConsent = (consent: ConsentRecord) => {
+    void saveInterview({ consent });
+  };
+
+  const handleWhisper = (whisper: Whisper) => {
+    void saveInterview({ whispers: [...(interviewRef.current?.whispers || []), whisper] });
+  };
+
+  // Declined or withdrawn: delete whatever was saved and drop the participant
+  const handleWithdraw = async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const interview = interviewRef.current;
+    interviewRef.current = null;
+    if (interview) {
+      try {
+        await studyStore.deleteInterview(interview.id);
+      } catch (err) {
+        console.error("Failed to delete withdrawn interview", err);
+      }
+    }
+    const participantId = activeParticipantId;
+    if (participantId) {
+      setCampaign(prev => prev && setParticipantStatus(prev, participantId, ParticipantStatus.DROPPED));
+    }
+    setScreen(AppScreen.WITHDRAWN);
+  };
 
   // Handle Initial Config
-  const handleConfigSubmit = (data: DeepResearchData, isDemo: boolean) => {
+  const handleConfigSubmit = (data: DeepResearchData, launch: LaunchMode, emails: string[]) => {
+    const study = createCampaign(data, launch === 'campaign' ? emails : []);
     setConfig(data);
-    setError(null);
-    if (isDemo) {
-      setScreen(AppScreen.INTERVIEW);
+    setCampaign(study);
+    if (launch === 'demo') {
+      beginInterview(study, null);
+    } else if (launch === 'rehearsal') {
+      handleOpenRehearsal(study, false);
     } else {
+      setActiveParticipantId(null);
+      setError(null);
+      setReport(null);
       setScreen(AppScreen.EMAIL_SIMULATION);
     }
   };
 
-  // Handle Interview Completion
-  const handleInterviewComplete = async (transcript: string) => {
-    if (!config) return;
+  // Campaign participant launches their interview
+  const handleStartParticipantInterview = (participantId: string) => {
+    if (!campaign) return;
+    setCampaign(prev => prev && setParticipantStatus(prev, participantId, ParticipantStatus.IN_PROGRESS));
+    beginInterview(campaign, participantId);
+  };
+
+  const handleViewParticipantReport = async (participantId: string) => {
+    const participant = campaign?.participants.find(p => p.id === participantId);
+    if (!campaign || !participant?.report) return;
+    // The saved interview carries the audio recording, if there is one
+    try {
+      const interviews = await studyStore.listInterviews(campaign.id);
+      interviewRef.current = interviews.find(i => i.participantId === participantId && i.report) ?? null;
+    } catch (err) {
+      console.error("Failed to load interview record", err);
+      interviewRef.current = null;
+    }
+    setActiveParticipantId(participantId);
+    setReport(participant.report);
+    setError(null);
+    setReturnToLibrary(false);
+    setScreen(AppScreen.REPORT);
+  };
+
+  // Returns to wherever the report was opened from: library, campaign roster or a fresh config
+  const handleRestart = () => {
+    setReport(null);
+    setError(null);
+    setActiveParticipantId(null);
+    interviewRef.current = null;
+    if (returnToRehearsal) {
+      setReturnToRehearsal(false);
+      setScreen(AppScreen.REHEARSAL);
+    } else if (returnToLibrary) {
+      setReturnToLibrary(false);
+      setScreen(AppScreen.LIBRARY);
+    } else if (isCampaign && screen !== AppScreen.EMAIL_SIMULATION) {
+      setScreen(AppScreen.EMAIL_SIMULATION);
+    } else {
+      setCampaign(null);
+      setScreen(AppScreen.CONFIG);
+    }
+  };
+
+  const runAnalysis = async (transcript: TranscriptTurn[], studyConfig: DeepResearchData, participantId: string | null) => {
     setLoadingReport(true);
     setScreen(AppScreen.REPORT);
     setError(null);
     
     try {
-      const apiKey = process.env.API_KEY || '';
-      console.log("Generating report from transcript of length:", transcript.length);
-      const data = await generateReport(apiKey, transcript, config);
+      console.log("Generating report from transcript with turns:", transcript.length);
+      const data = await generateReport(transcript, studyConfig);
       setReport(data);
+      await saveInterview({ report: data, reportHistory: createReportHistory(data) });
+      if (participantId) {
+        setCampaign(prev => prev && attachReport(prev, participantId, data));
+      }
     } catch (err: any) {
       console.error("Report Generation Failed", err);
       const errorMsg = err.message || "An unexpected error occurred during analysis.";
@@ -45,6 +240,169 @@ function App() {
     }
   };
 
+  // Every change to a finished report is saved as a new version on the interview record
+  const commitReportChange = async (next: InterviewReport, origin: ContentOrigin, summary: string) => {
+    if (!report) return;
+    const participantId = activeParticipantId;
+    const reportHistory = addReportVersion(interviewRef.current?.reportHistory || [], report, next, origin, summary);
+    setReport(next);
+    await saveInterview({ report: next, reportHistory });
+    if (participantId) {
+      setCampaign(prev => prev && attachReport(prev, participantId, next));
+    }
+  };
+
+  // The study config as seen by the participant whose report is open
+  const getReportConfig = () => campaign ? getParticipantConfig(campaign, activeParticipantId) : config;
+
+  // Regenerates the sections a partial report is missing; errors are shown by the report view
+  const handleRetryReportSections = async () => {
+    const reportConfig = getReportConfig();
+    if (!report || !reportConfig) return;
+    const data = await retryReportSections(report, reportConfig);
+    await commitReportChange(data, 'ai', 'Retried failed sections');
+  };
+
+  const handleRegenerateSection = async (section: RegenerableSection, instruction: string) => {
+    const reportConfig = getReportConfig();
+    if (!report || !reportConfig) return;
+    const data = await regenerateReportSection(report, section, reportConfig, instruction);
+    const label = getRegenerableSectionLabel(section);
+    await commitReportChange(data, 'ai', instruction.trim() ? `Regenerated ${label}: ${instruction.trim()}` : `Regenerated ${label}`);
+  };
+
+  // Handle Interview Completion
+  const handleInterviewComplete = async (transcript: TranscriptTurn[], recording?: InterviewRecording) => {
+    if (!config) return;
+    const interviewId = interviewRef.current?.id ?? null;
+    if (interviewId && completedInterviewRef.current === interviewId) return;
+    completedInterviewRef.current = interviewId;
+    // The participant stays in progress until a report is attached, so a failed analysis can be retried
+    await saveInterview({ transcript, recording });
+    await runAnalysis(transcript, config, activeParticipantId);
+  };
+
+  // Library: reopen a saved report
+  const handleOpenSavedReport = (study: StudyRecord, interview: InterviewRecord) => {
+    if (!interview.report) return;
+    interviewRef.current = interview;
+    setConfig(study.config);
+    setCampaign(study);
+    setActiveParticipantId(interview.participantId);
+    setReport(interview.report);
+    setError(null);
+    setReturnToLibrary(true);
+    setReturnToRehearsal(false);
+    setScreen(AppScreen.REPORT);
+  };
+
+  // Library: analyze a transcript whose report was never generated (e.g. the tab was closed)
+  const handleAnalyzeSavedInterview = async (study: StudyRecord, interview: InterviewRecord) => {
+    interviewRef.current = interview;
+    setConfig(study.config);
+    setCampaign(study);
+    setActiveParticipantId(interview.participantId);
+    setReturnToLibrary(true);
+    await runAnalysis(interview.transcript, getParticipantConfig(study, interview.participantId), interview.participantId);
+  };
+
+  // Merge every available report of a study into one synthesis
+  const handleSynthesize = async (study: Campaign, reports: InterviewReport[], fromLibrary: boolean) => {
+    setCampaign(study);
+    setConfig(study.config);
+    setReturnToLibrary(fromLibrary);
+    setLoadingReport(true);
+    setError(null);
+    setScreen(AppScreen.SYNTHESIS);
+
+    try {
+      const synthesis = await generateSynthesis(reports, study.config);
+      setCampaign(prev => prev && prev.id === study.id ? { ...prev, synthesis } : prev);
+    } catch (err: any) {
+      console.error("Synthesis Failed", err);
+      setError(err.message || "An unexpected error occurred during synthesis.");
+    } finally {
+      setLoadingReport(false);
+    }
+  };
+
+  const handleViewSynthesis = (study: Campaign, fromLibrary: boolean) => {
+    setCampaign(study);
+    setConfig(study.config);
+    setReturnToLibrary(fromLibrary);
+    setError(null);
+    setScreen(AppScreen.SYNTHESIS);
+  };
+
+  const handleSynthesisBack = () => {
+    setError(null);
+    if (returnToRehearsal) {
+      setReturnToRehearsal(false);
+      setScreen(AppScreen.REHEARSAL);
+      return;
+    }
+    setScreen(returnToLibrary ? AppScreen.LIBRARY : AppScreen.EMAIL_SIMULATION);
+    setReturnToLibrary(false);
+  };
+
+  // Rehearsals run synthetic personas against the study's interviewer
+  const handleOpenRehearsal = (study: Campaign, fromLibrary: boolean) => {
+    setConfig(study.config);
+    setCampaign(study);
+    setActiveParticipantId(null);
+    setReport(null);
+    setError(null);
+    setReturnToLibrary(fromLibrary);
+    setReturnToRehearsal(false);
+    setScreen(AppScreen.REHEARSAL);
+  };
+
+  const handleViewRehearsalReport = (interview: InterviewRecord) => {
+    if (!interview.report) return;
+    interviewRef.current = interview;
+    setReport(interview.report);
+    setError(null);
+    setReturnToRehearsal(true);
+    setScreen(AppScreen.REPORT);
+  };
+
+  // Library: a report exported as JSON is filed under a study of its own
+  const handleImportReport = async (imported: InterviewReport) => {
+    const mode = imported.transcript.some(t => t.mode === InterviewMode.VOICE) ? InterviewMode.VOICE : InterviewMode.TEXT;
+    const study = createCampaign({
+      challenge: `Imported: ${imported.intervieweeName}`,
+      context: '',
+      style: InterviewStyle.DIRECT,
+      mode,
+    }, []);
+    const now = Date.now();
+    const interview: InterviewRecord = {
+      id: generateId(8),
+      studyId: study.id,
+      participantId: null,
+      transcript: imported.transcript,
+      report: imported,
+      createdAt: now,
+      updatedAt: now,
+    };
+    try {
+      await studyStore.saveInterview(interview);
+    } catch (err) {
+      console.error("Failed to save imported report", err);
+    }
+    handleOpenSavedReport({ ...study, updatedAt: now }, interview);
+  };
+
+  const handleResumeCampaign = (study: StudyRecord) => {
+    setConfig(study.config);
+    setCampaign(study);
+    setActiveParticipantId(null);
+    setReport(null);
+    setError(null);
+    setReturnToLibrary(false);
+    setScreen(AppScreen.EMAIL_SIMULATION);
+  };
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 selection:bg-indigo-500 selection:text-white">
       {/* Top Navigation / Branding */}
@@ -59,45 +417,137 @@ function App() {
                 Deep Research Beta
               </span>
             </div>
+            {screen !== AppScreen.INTERVIEW && screen !== AppScreen.OBSERVER && (
+              <button
+                onClick={() => setScreen(AppScreen.LIBRARY)}
+                className={`text-sm font-semibold transition-colors ${screen === AppScreen.LIBRARY ? 'text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                Study Library
+              </button>
+            )}
           </div>
         </div>
       </nav>
 
       <main className="py-10 px-4">
         {screen === AppScreen.CONFIG && (
-          <ConfigForm onSubmit={handleConfigSubmit} />
+          <>
+            {error && !report && (
+              <div className="max-w-4xl mx-auto mb-6 bg-slate-900 border border-red-900/30 rounded-xl p-4 text-sm text-red-400">{error}</div>
+            )}
+            <ConfigForm onSubmit={handleConfigSubmit} />
+          </>
         )}
 
-        {screen === AppScreen.EMAIL_SIMULATION && (
-          <div className="max-w-2xl mx-auto bg-slate-900 border border-slate-800 rounded-xl p-8 text-center shadow-2xl">
-            <div className="w-16 h-16 bg-indigo-900/30 rounded-full flex items-center justify-center mx-auto mb-6">
-               <svg className="text-indigo-400" width="32" height="32" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 4h16c1.1 0 2 .9 2 2v12c0 1.1-.9 2-2 2H4c-1.1 0-2-.9-2-2V6c0-1.1.9-2 2-2z"></path><polyline points="22,6 12,13 2,6"></polyline></svg>
-            </div>
-            <h2 className="text-2xl font-bold text-white mb-2">Campaign Active</h2>
-            <p className="text-slate-400 mb-8">
-              Agents are emailing your target list ({config?.style} style). 
-              Waiting for participants to click their unique interview links...
-            </p>
-            
-            <div className="animate-pulse flex flex-col gap-4 max-w-sm mx-auto">
-               <div className="bg-slate-800 p-4 rounded-lg flex items-center justify-between border border-slate-700">
-                  <div className="text-left">
-                    <div className="text-sm font-bold text-slate-300">Sarah J.</div>
-                    <div className="text-xs text-slate-500">sarah@example.com</div>
-                  </div>
-                  <button 
-                    onClick={() => setScreen(AppScreen.INTERVIEW)}
-                    className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-xs font-bold rounded text-white transition-colors"
-                  >
-                    Simulate "Join"
-                  </button>
-               </div>
-            </div>
+        {screen === AppScreen.LIBRARY && !retentionApplied && (
+          <div className="flex justify-center py-20">
+            <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
           </div>
         )}
 
+        {screen === AppScreen.LIBRARY && retentionApplied && (
+          <StudyLibrary
+            store={studyStore}
+            onOpenReport={handleOpenSavedReport}
+            onAnalyzeInterview={handleAnalyzeSavedInterview}
+            onResumeCampaign={handleResumeCampaign}
+            onRehearse={(study) => handleOpenRehearsal(study, true)}
+            onSynthesize={(study, interviews) => handleSynthesize(
+              study,
+              interviews.flatMap(i => i.report ? [i.report] : []),
+              true
+            )}
+            onViewSynthesis={(study) => handleViewSynthesis(study, true)}
+            onImportReport={handleImportReport}
+            onBack={() => setScreen(isCampaign ? AppScreen.EMAIL_SIMULATION : AppScreen.CONFIG)}
+          />
+        )}
+
+        {screen === AppScreen.EMAIL_SIMULATION && campaign && (
+          <CampaignRoster
+            campaign={campaign}
+            onStartInterview={handleStartParticipantInterview}
+            onStatusChange={(participantId, status) => setCampaign(prev => prev && setParticipantStatus(prev, participantId, status))}
+            onLanguageChange={(participantId, language) => setCampaign(prev => prev && setParticipantLanguage(prev, participantId, language))}
+            onViewReport={handleViewParticipantReport}
+            onNewCampaign={handleRestart}
+            onSynthesize={() => handleSynthesize(
+              campaign,
+              campaign.participants.flatMap(p => p.report ? [p.report] : []),
+              false
+            )}
+            onViewSynthesis={() => handleViewSynthesis(campaign, false)}
+          />
+        )}
+
+        {screen === AppScreen.REHEARSAL && campaign && (
+          <PersonaLab
+            study={campaign}
+            store={studyStore}
+            onViewReport={handleViewRehearsalReport}
+            onSynthesize={(reports) => {
+              handleSynthesize(campaign, reports, returnToLibrary);
+              setReturnToRehearsal(true);
+            }}
+            onBack={handleRestart}
+          />
+        )}
+
+        {screen === AppScreen.SYNTHESIS && (
+          <>
+            {loadingReport ? (
+              <div className="flex flex-col items-center justify-center h-[60vh]">
+                <div className="w-16 h-16 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin mb-6"></div>
+                <h2 className="text-xl font-bold text-white">Synthesizing Interviews...</h2>
+                <p className="text-slate-400 mt-2 text-center max-w-md">
+                    Clustering themes across every participant's canvas. Larger studies can take a couple of minutes.
+                </p>
+              </div>
+            ) : error || !campaign?.synthesis ? (
+              <div className="max-w-2xl mx-auto bg-slate-900 border border-red-900/30 rounded-xl p-8 text-center">
+                <div className="text-red-500 text-4xl mb-4">⚠️</div>
+                <h2 className="text-2xl font-bold text-white mb-2">Synthesis Failed</h2>
+                <p className="text-slate-400 mb-6">{error || "No synthesis is available for this study."}</p>
+                <button 
+                    onClick={handleSynthesisBack}
+                    className="bg-slate-800 hover:bg-slate-700 text-white font-bold py-2 px-6 rounded-lg transition-colors"
+                >
+                    Back
+                </button>
+              </div>
+            ) : (
+              <SynthesisView synthesis={campaign.synthesis} onBack={handleSynthesisBack} />
+            )}
+          </>
+        )}
+
         {screen === AppScreen.INTERVIEW && config && (
-          <InterviewSession config={config} onComplete={handleInterviewComplete} />
+          <InterviewSession
+            config={config}
+            onComplete={handleInterviewComplete}
+            onTranscriptChange={handleTranscriptChange}
+            onConsent={handleConsent}
+            onWithdraw={handleWithdraw}
+            sessionId={interviewRef.current?.id}
+            onWhisper={handleWhisper}
+          />
+        )}
+
+        {screen === AppScreen.OBSERVER && observedSessionId && (
+          <ObserverDashboard sessionId={observedSessionId} />
+        )}
+
+        {screen === AppScreen.WITHDRAWN && (
+          <div className="max-w-2xl mx-auto bg-slate-900 border border-slate-800 rounded-xl p-8 text-center">
+            <h2 className="text-2xl font-bold text-white mb-2">You have left the interview</h2>
+            <p className="text-slate-400 mb-6">Nothing from this session has been kept. Thank you for your time.</p>
+            <button
+                onClick={handleRestart}
+                className="bg-slate-800 hover:bg-slate-700 text-white font-bold py-2 px-6 rounded-lg transition-colors"
+            >
+                Done
+            </button>
+          </div>
         )}
 
         {screen === AppScreen.REPORT && (
@@ -116,14 +566,27 @@ function App() {
                 <h2 className="text-2xl font-bold text-white mb-2">Analysis Failed</h2>
                 <p className="text-slate-400 mb-6">{error}</p>
                 <button 
-                    onClick={() => setScreen(AppScreen.CONFIG)}
+                    onClick={handleRestart}
                     className="bg-slate-800 hover:bg-slate-700 text-white font-bold py-2 px-6 rounded-lg transition-colors"
                 >
-                    Back to Settings
+                    {returnToRehearsal ? 'Back to Rehearsal' : returnToLibrary ? 'Back to Library' : isCampaign ? 'Back to Campaign' : 'Back to Settings'}
                 </button>
               </div>
             ) : (
-               report && <ReportView report={report} onRestart={() => setScreen(AppScreen.CONFIG)} />
+               report && (
+                 <ReportView
+                   report={report}
+                   recording={interviewRef.current?.recording}
+                   redaction={config?.redaction}
+                   originalTranscript={interviewRef.current?.transcript}
+                   onRestart={handleRestart}
+                   onRetrySections={handleRetryReportSections}
+                   history={interviewRef.current?.reportHistory}
+                   onChange={commitReportChange}
+                   onRegenerateSection={handleRegenerateSection}
+                   restartLabel={returnToRehearsal ? 'Back to Rehearsal' : returnToLibrary ? 'Back to Library' : isCampaign ? 'Back to Campaign' : 'Start New'}
+                 />
+               )
             )}
           </>
         )}
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { Campaign, Participant, ParticipantStatus } from '../types';
+import { countByStatus, getInviteLink } from '../services/campaignService';
+import { getInterviewLanguage, getLanguageName, LANGUAGES } from '../utils/languageUtils';
+
+interface CampaignRosterProps {
+  campaign: Campaign;
+  onStartInterview: (participantId: string) => void;
+  onStatusChange: (participantId: string, status: ParticipantStatus) => void;
+  onLanguageChange: (participantId: string, language: string | undefined) => void;
+  onViewReport: (participantId: string) => void;
+  onNewCampaign: () => void;
+  onSynthesize: () => void;
+  onViewSynthesis: () => void;
+}
+
+const STATUS_STYLES: Record<ParticipantStatus, string> = {
+  [ParticipantStatus.INVITED]: 'bg-slate-800 text-slate-400 border-slate-700',
+  [ParticipantStatus.JOINED]: 'bg-blue-900/40 text-blue-300 border-blue-700',
+  [ParticipantStatus.IN_PROGRESS]: 'bg-amber-900/40 text-amber-300 border-amber-700',
+  [ParticipantStatus.COMPLETED]: 'bg-emerald-900/40 text-emerald-300 border-emerald-700',
+  [ParticipantStatus.DROPPED]: 'bg-red-900/30 text-red-400 border-red-800',
+};
+
+const ParticipantRow: React.FC<{
+  participant: Participant;
+  studyLanguage: string;
+  onStartInterview: () => void;
+  onStatusChange: (status: ParticipantStatus) => void;
+  onLanguageChange: (language: string | undefined) => void;
+  onViewReport: () => void;
+}> = ({ participant, studyLanguage, onStartInterview, onStatusChange, onLanguageChange, onViewReport }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(participant));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Failed to copy invite link", err);
+    }
+  };
+
+  const { status } = participant;
+  const canStart = status === ParticipantStatus.INVITED || status === ParticipantStatus.JOINED || status === ParticipantStatus.DROPPED;
+
+  return (
+    <div className="bg-slate-800 p-4 rounded-lg flex flex-col md:flex-row md:items-center justify-between gap-3 border border-slate-700">
+      <div className="text-left min-w-0">
+        <div className="text-sm font-bold text-slate-300 truncate">{participant.email}</div>
+        <button onClick={copyLink} className="text-xs text-slate-500 hover:text-indigo-300 font-mono truncate">
+          {copied ? 'Invite link copied!' : `Invite token: ${participant.inviteToken.slice(0, 12)}…`}
+        </button>
+      </div>
+      <div className="flex items-center gap-2 shrink-0">
+        <select
+          value={participant.language ?? ''}
+          onChange={(e) => onLanguageChange(e.target.value || undefined)}
+          disabled={status === ParticipantStatus.IN_PROGRESS || status === ParticipantStatus.COMPLETED}
+          title="Interview language"
+          className="bg-slate-900 border border-slate-700 rounded text-xs text-slate-300 px-2 py-1 disabled:opacity-50"
+        >
+          <option value="">{getLanguageName(studyLanguage)} (study)</option>
+          {LANGUAGES.filter(l => l.code !== studyLanguage).map(l => (
+            <option key={l.code} value={l.code}>{l.nativeName}</option>
+          ))}
+        </select>
+        <span className={`px-2 py-0.5 rounded text-xs font-medium border ${STATUS_STYLES[status]}`}>{status}</span>
+        {status === ParticipantStatus.INVITED && (
+          <button
+            onClick={() => onStatusChange(ParticipantStatus.JOINED)}
+            className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-xs font-bold rounded text-white transition-colors"
+          >
+            Simulate "Join"
+          </button>
+        )}
+        {canStart && (
+          <button
+            onClick={onStartInterview}
+            className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-xs font-bold rounded text-white transition-colors"
+          >
+            {status === ParticipantStatus.DROPPED ? 'Restart Interview' : 'Start Interview'}
+          </button>
+        )}
+        {(status === ParticipantStatus.JOINED || status === ParticipantStatus.IN_PROGRESS) && (
+          <button
+            onClick={() => onStatusChange(ParticipantStatus.DROPPED)}
+            className="px-3 py-1 bg-slate-900 hover:bg-red-900/40 text-xs font-bold rounded text-red-400 border border-red-900/50 transition-colors"
+          >
+            Mark Dropped
+          </button>
+        )}
+        {participant.report && (
+          <button
+            onClick={onViewReport}
+            className="px-3 py-1 bg-emerald-700 hover:bg-emerald-600 text-xs font-bold rounded text-white transition-colors"
+          >
+            View Report
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CampaignRoster: React.FC<CampaignRosterProps> = ({ campaign, onStartInterview, onStatusChange, onLanguageChange, onViewReport, onNewCampaign, onSynthesize, onViewSynthesis }) => {
+  const counts = countByStatus(campaign);
+  const reportCount = campaign.participants.filter(p => p.report).length;
+
+  return (
+    <div className="max-w-3xl mx-auto bg-slate-900 border border-slate-800 rounded-xl p-8 shadow-2xl">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-white mb-2">Campaign Active</h2>
+          <p className="text-slate-400 text-sm">
+            {campaign.participants.length} participant{campaign.participants.length === 1 ? '' : 's'} invited ({campaign.config.style} style, {campaign.config.mode} mode).
+          </p>
+          <p className="text-slate-500 text-xs mt-1">Challenge: {campaign.config.challenge}</p>
+        </div>
+        <button onClick={onNewCampaign} className="text-sm text-slate-500 hover:text-white underline">New Campaign</button>
+      </div>
+
+      <div className="grid grid-cols-5 gap-2 mb-6">
+        {Object.values(ParticipantStatus).map(status => (
+          <div key={status} className={`rounded-lg border p-2 text-center ${STATUS_STYLES[status]}`}>
+            <div className="text-lg font-bold">{counts[status]}</div>
+            <div className="text-[10px] uppercase tracking-wider">{status}</div>
+          </div>
+        ))}
+      </div>
+
+      {reportCount >= 2 && (
+        <div className="flex items-center justify-between gap-3 mb-6 p-4 rounded-lg bg-indigo-950/40 border border-indigo-900/60">
+          <p className="text-sm text-indigo-200">
+            {reportCount} reports ready. Merge them to find patterns across participants.
+          </p>
+          <div className="flex gap-2 shrink-0">
+            {campaign.synthesis && (
+              <button
+                onClick={onViewSynthesis}
+                className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-xs font-bold rounded text-white transition-colors"
+              >
+                View Synthesis
+              </button>
+            )}
+            <button
+              onClick={onSynthesize}
+              className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-xs font-bold rounded text-white transition-colors"
+            >
+              {campaign.synthesis ? 'Re-synthesize' : `Synthesize ${reportCount} Reports`}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-3">
+        {campaign.participants.map(participant => (
+          <ParticipantRow
+            key={participant.id}
+            participant={participant}
+            onStartInterview={() => onStartInterview(participant.id)}
+            studyLanguage={getInterviewLanguage(campaign.config)}
+            onStatusChange={(status) => onStatusChange(participant.id, status)}
+            onLanguageChange={(language) => onLanguageChange(participant.id, language)}
+            onViewReport={() => onViewReport(participant.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CampaignRoster;
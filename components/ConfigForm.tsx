@@ -1,42 +1,61 @@
 import React, { useState } from 'react';
-import { DeepResearchData, InterviewStyle, InterviewMode } from '../types';
+import { ContextDocument, DeepResearchData, InterviewGuide, InterviewStyle, InterviewMode, LaunchMode, RedactionMode } from '../types';
+import { parseEmailList } from '../services/campaignService';
+import { sanitizeGuide } from '../utils/guideUtils';
+import { DEFAULT_RETENTION_DAYS } from '../utils/consentUtils';
+import { DEFAULT_DURATION_MINUTES, getGuideMinutes } from '../utils/pacingUtils';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../utils/languageUtils';
+import { DEFAULT_GEMINI_VOICE, GEMINI_VOICES } from '../services/llm';
+import GuideEditor from './GuideEditor';
+import ContextLibrary from './ContextLibrary';
 
 interface ConfigFormProps {
-  onSubmit: (data: DeepResearchData, isDemo: boolean) => void;
+  onSubmit: (data: DeepResearchData, launch: LaunchMode, emails: string[]) => void;
 }
 
 const ConfigForm: React.FC<ConfigFormProps> = ({ onSubmit }) => {
   const [challenge, setChallenge] = useState('');
   const [context, setContext] = useState('');
+  const [documents, setDocuments] = useState<ContextDocument[]>([]);
   const [style, setStyle] = useState<InterviewStyle>(InterviewStyle.DIRECT);
   const [mode, setMode] = useState<InterviewMode>(InterviewMode.VOICE);
   const [emails, setEmails] = useState('');
+  const [emailError, setEmailError] = useState<string | null>(null);
+  const [guide, setGuide] = useState<InterviewGuide>({ sections: [] });
+  const [recordAudio, setRecordAudio] = useState(false);
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_DURATION_MINUTES);
+  const [language, setLanguage] = useState(DEFAULT_LANGUAGE);
+  const [reportLanguage, setReportLanguage] = useState(DEFAULT_LANGUAGE);
+  const [voice, setVoice] = useState(DEFAULT_GEMINI_VOICE);
+  const [purpose, setPurpose] = useState('');
+  const [contact, setContact] = useState('');
+  const [retentionDays, setRetentionDays] = useState<number | null>(DEFAULT_RETENTION_DAYS);
+  const [redactionMode, setRedactionMode] = useState<RedactionMode>(RedactionMode.OFF);
+  const [customTerms, setCustomTerms] = useState('');
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    try {
-      // Use the File API to read text directly
-      const text = await file.text();
-      setContext((prev) => {
-        const separator = prev ? '\n\n' : '';
-        return `${prev}${separator}--- Imported File: ${file.name} ---\n${text}`;
-      });
-    } catch (err) {
-      console.error("Error reading file", err);
-      alert("Failed to read the file. Please ensure it is a text-based format (.txt, .md, .json, .csv).");
-    }
-    // Reset input so same file can be selected again if needed
-    e.target.value = '';
-  };
+  const parsedEmails = parseEmailList(emails);
 
-  const handleSubmit = (isDemo: boolean) => {
+  const handleSubmit = (launch: LaunchMode) => {
     let finalChallenge = challenge;
     let finalContext = context;
+    let targetEmails: string[] = [];
+
+    // A campaign needs at least one valid address; demos and rehearsals ignore the list entirely
+    if (launch === 'campaign') {
+      if (parsedEmails.invalid.length > 0) {
+        setEmailError(`Invalid email address${parsedEmails.invalid.length > 1 ? 'es' : ''}: ${parsedEmails.invalid.join(', ')}`);
+        return;
+      }
+      if (parsedEmails.valid.length === 0) {
+        setEmailError('Add at least one participant email to launch a campaign.');
+        return;
+      }
+      targetEmails = parsedEmails.valid;
+    }
+    setEmailError(null);
 
     // Default values for quick demo only if EVERYTHING is empty
-    if (isDemo && !finalChallenge && !finalContext) {
+    if (launch !== 'campaign' && !finalChallenge && !finalContext && documents.length === 0) {
       finalChallenge = "Improve the remote onboarding experience for new software engineers.";
       finalContext = "Deep research indicates that new hires feel isolated in the first 2 weeks. They struggle with undocumented legacy code and lack of social bonding. Recent studies show 30% turnover in first 6 months due to 'imposter syndrome' exacerbated by remote work.";
     }
@@ -44,9 +63,21 @@ const ConfigForm: React.FC<ConfigFormProps> = ({ onSubmit }) => {
     onSubmit({
       challenge: finalChallenge,
       context: finalContext,
+      documents,
       style,
-      mode
-    }, isDemo);
+      mode,
+      guide: sanitizeGuide(guide),
+      recordAudio: mode === InterviewMode.VOICE && recordAudio,
+      durationMinutes,
+      language,
+      reportLanguage,
+      voice,
+      consent: { purpose: purpose.trim(), contact: contact.trim(), retentionDays },
+      redaction: {
+        mode: redactionMode,
+        customTerms: customTerms.split(/[,\n]/).map(t => t.trim()).filter(Boolean),
+      }
+    }, launch, targetEmails);
   };
 
   return (
@@ -75,31 +106,89 @@ const ConfigForm: React.FC<ConfigFormProps> = ({ onSubmit }) => {
 
         {/* Deep Research Section (Unified) */}
         <div>
-          <div className="flex justify-between items-end mb-2">
-            <label className="text-indigo-300 text-sm font-semibold">
-              Deep Research Context (Optional)
-            </label>
-            <label className="text-xs text-indigo-400 hover:text-white cursor-pointer flex items-center gap-2 bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-md transition-colors border border-slate-700">
-              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>
-              Import Text File
-              <input 
-                type="file" 
-                accept=".txt,.md,.json,.csv" 
-                onChange={handleFileUpload} 
-                className="hidden" 
-              />
-            </label>
+          <label className="block text-indigo-300 text-sm font-semibold mb-2">
+            Deep Research Context (Optional)
+          </label>
+          <ContextLibrary documents={documents} onChange={setDocuments} />
+          <textarea
+            className="mt-3 w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-300 h-40 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all font-mono text-sm leading-relaxed"
+            placeholder="Paste research notes here, or import PDF, Word, HTML and CSV documents above..."
+            value={context}
+            onChange={(e) => setContext(e.target.value)}
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Long documents are split into passages; the interviewer and the analysis each receive the passages most relevant to the research goal, the guide and the conversation.
+          </p>
+        </div>
+
+        {/* Interview Guide */}
+        <div>
+          <label className="block text-indigo-300 text-sm font-semibold mb-2">
+            Interview Guide (Optional)
+          </label>
+          <p className="text-xs text-slate-500 mb-3">
+            Add your discussion plan. Must-ask questions are always covered; probes are used when answers are shallow. Coverage is tracked live during the interview.
+          </p>
+          <GuideEditor guide={guide} onChange={setGuide} />
+        </div>
+
+        {/* Language & Voice */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-indigo-300 text-sm font-semibold mb-2">Interview Language</label>
+            <select
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+            >
+              {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName}</option>)}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">Can be changed per participant on the roster.</p>
           </div>
-          <div className="relative">
-            <textarea
-              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-300 h-40 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition-all font-mono text-sm leading-relaxed"
-              placeholder="Paste research text here, or click 'Import Text File' to load content..."
-              value={context}
-              onChange={(e) => setContext(e.target.value)}
+          <div>
+            <label className="block text-indigo-300 text-sm font-semibold mb-2">Report Language</label>
+            <select
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+              value={reportLanguage}
+              onChange={(e) => setReportLanguage(e.target.value)}
+            >
+              {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.nativeName}</option>)}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">Quotes stay in the language they were said in.</p>
+          </div>
+          <div>
+            <label className="block text-indigo-300 text-sm font-semibold mb-2">Interviewer Voice</label>
+            <select
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm disabled:opacity-40"
+              value={voice}
+              disabled={mode !== InterviewMode.VOICE}
+              onChange={(e) => setVoice(e.target.value)}
+            >
+              {GEMINI_VOICES.map(v => <option key={v.name} value={v.name}>{v.name} ({v.tone})</option>)}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">Voice interviews only.</p>
+          </div>
+        </div>
+
+        {/* Session Length */}
+        <div>
+          <label className="block text-indigo-300 text-sm font-semibold mb-2">
+            Session Length
+          </label>
+          <div className="flex items-center gap-2 text-sm text-slate-400">
+            <input
+              type="number"
+              min={1}
+              max={120}
+              className="w-20 bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              value={durationMinutes}
+              onChange={(e) => setDurationMinutes(Math.min(120, Math.max(1, Number(e.target.value) || 1)))}
             />
+            minutes
           </div>
-          <p className="text-xs text-slate-500 mt-1">
-            This context helps the agent ask smarter questions. Supported import formats: .txt, .md, .json, .csv
+          <p className={`text-xs mt-1 ${getGuideMinutes(guide) > durationMinutes ? 'text-amber-400' : 'text-slate-500'}`}>
+            The interviewer gets time checks, wraps up with a summary near the end and stops at the limit.
+            {getGuideMinutes(guide) > 0 && ` Guide sections add up to ${getGuideMinutes(guide)} min.`}
           </p>
         </div>
 
@@ -169,7 +258,94 @@ const ConfigForm: React.FC<ConfigFormProps> = ({ onSubmit }) => {
                    </div>
                 </button>
               </div>
+              {mode === InterviewMode.VOICE && (
+                <label className="flex items-start gap-2 mt-3 text-xs text-slate-400">
+                  <input type="checkbox" className="mt-0.5" checked={recordAudio} onChange={(e) => setRecordAudio(e.target.checked)} />
+                  Record audio of both sides. Participants are asked for consent before the interview starts.
+                </label>
+              )}
+            </div>
+        </div>
+
+        {/* Consent & Retention */}
+        <div>
+          <label className="block text-indigo-300 text-sm font-semibold mb-2">
+            Participant Consent & Data Retention
+          </label>
+          <p className="text-xs text-slate-500 mb-3">
+            Participants see a consent screen with this purpose, an AI disclosure, the recording notice and their right to withdraw before the interview starts.
+          </p>
+          <div className="space-y-3">
+            <textarea
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-300 h-20 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+              placeholder="Study purpose in plain language (defaults to the research goal)"
+              value={purpose}
+              onChange={(e) => setPurpose(e.target.value)}
+            />
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+                placeholder="Data contact, e.g. research-ops@example.com"
+                value={contact}
+                onChange={(e) => setContact(e.target.value)}
+              />
+              <label className="flex items-center gap-2 text-sm text-slate-400">
+                Delete after
+                <input
+                  type="number"
+                  min={1}
+                  disabled={retentionDays === null}
+                  className="w-20 bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none disabled:opacity-40"
+                  value={retentionDays ?? ''}
+                  onChange={(e) => setRetentionDays(Math.max(1, Number(e.target.value) || 1))}
+                />
+                days
+              </label>
+              <label className="flex items-center gap-2 text-xs text-slate-400">
+                <input
+                  type="checkbox"
+                  checked={retentionDays === null}
+                  onChange={(e) => setRetentionDays(e.target.checked ? null : DEFAULT_RETENTION_DAYS)}
+                />
+                Keep indefinitely
+              </label>
             </div>
+          </div>
+        </div>
+
+        {/* PII Redaction */}
+        <div>
+          <label className="block text-indigo-300 text-sm font-semibold mb-2">
+            PII Redaction
+          </label>
+          <p className="text-xs text-slate-500 mb-3">
+            Names, emails, phone numbers, addresses and employers are removed from transcripts before analysis and export. The original stays in this browser for review.
+          </p>
+          <div className="grid grid-cols-3 gap-2 mb-3">
+            {Object.values(RedactionMode).map(option => (
+              <button
+                key={option}
+                onClick={() => setRedactionMode(option)}
+                className={`p-2 rounded-lg border text-sm transition-all ${
+                  redactionMode === option
+                    ? 'bg-indigo-900/40 border-indigo-500 ring-1 ring-indigo-500 text-white'
+                    : 'bg-slate-950 border-slate-800 text-slate-400 hover:border-slate-600'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          {redactionMode !== RedactionMode.OFF && (
+            <input
+              type="text"
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none text-sm"
+              placeholder="Custom terms to redact, e.g. Project Falcon, Acme Bank"
+              value={customTerms}
+              onChange={(e) => setCustomTerms(e.target.value)}
+            />
+          )}
         </div>
 
         {/* Email List (Only for Campaign) */}
@@ -182,14 +358,24 @@ const ConfigForm: React.FC<ConfigFormProps> = ({ onSubmit }) => {
             className="w-full bg-slate-950 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
             placeholder="email1@example.com, email2@example.com..."
             value={emails}
-            onChange={(e) => setEmails(e.target.value)}
+            onChange={(e) => { setEmails(e.target.value); setEmailError(null); }}
           />
+          {emailError ? (
+            <p className="text-xs text-red-400 mt-1">{emailError}</p>
+          ) : (
+            <p className="text-xs text-slate-500 mt-1">
+              Separate addresses with commas, spaces or new lines.
+              {parsedEmails.duplicates.length > 0
+                ? ` ${parsedEmails.duplicates.length} duplicate${parsedEmails.duplicates.length === 1 ? '' : 's'} will be ignored.`
+                : ' Duplicates are ignored.'}
+            </p>
+          )}
         </div>
 
         {/* Actions */}
         <div className="pt-6 flex flex-col md:flex-row gap-4 border-t border-slate-800">
           <button
-            onClick={() => handleSubmit(false)}
+            onClick={() => handleSubmit('campaign')}
             className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-6 rounded-lg transition-colors flex items-center justify-center gap-2"
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M22 16.92v3a2 2 0 0 1-2.18 2 19.79 19.79 0 0 1-8.63-3.07 19.5 19.5 0 0 1-6-6 19.79 19.79 0 0 1-3.07-8.67A2 2 0 0 1 4.11 2h3a2 2 0 0 1 2 1.72 12.84 12.84 0 0 0 .7 2.81 2 2 0 0 1-.45 2.11L8.09 9.91a16 16 0 0 0 6 6l1.27-1.27a2 2 0 0 1 2.11-.45 12.84 12.84 0 0 0 2.81.7A2 2 0 0 1 22 16.92z"/></svg>
@@ -197,12 +383,20 @@ const ConfigForm: React.FC<ConfigFormProps> = ({ onSubmit }) => {
           </button>
           
           <button
-            onClick={() => handleSubmit(true)}
+            onClick={() => handleSubmit('demo')}
             className="flex-1 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-bold py-3 px-6 rounded-lg transition-all shadow-lg shadow-purple-900/20 flex items-center justify-center gap-2"
           >
             <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="5 3 19 12 5 21 5 3"/></svg>
             Instant Demo Interview
           </button>
+
+          <button
+            onClick={() => handleSubmit('rehearsal')}
+            className="flex-1 bg-slate-800 hover:bg-slate-700 text-white font-bold py-3 px-6 rounded-lg transition-colors border border-slate-700 flex items-center justify-center gap-2"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"/><circle cx="9" cy="7" r="4"/><path d="M23 21v-2a4 4 0 0 0-3-3.87"/><path d="M16 3.13a4 4 0 0 1 0 7.75"/></svg>
+            Rehearse with Personas
+          </button>
         </div>
       </div>
     </div>
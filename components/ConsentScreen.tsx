@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ConsentRecord, DeepResearchData, InterviewMode } from '../types';
+import { buildConsentNotice, formatConsentNotice } from '../utils/consentUtils';
+
+interface ConsentScreenProps {
+  config: DeepResearchData;
+  onAccept: (consent: ConsentRecord) => void;
+  onDecline: () => void;
+}
+
+const ConsentScreen: React.FC<ConsentScreenProps> = ({ config, onAccept, onDecline }) => {
+  const [agreed, setAgreed] = useState(false);
+  const [recordingAccepted, setRecordingAccepted] = useState(false);
+  const sections = buildConsentNotice(config);
+  const offersRecording = !!config.recordAudio && config.mode === InterviewMode.VOICE;
+
+  const handleAccept = () => {
+    const recordingNote = offersRecording
+      ? `\n\nAudio recording: ${recordingAccepted ? 'accepted' : 'declined'}`
+      : '';
+    onAccept({
+      acceptedAt: Date.now(),
+      recordingAccepted: offersRecording && recordingAccepted,
+      notice: formatConsentNotice(sections) + recordingNote,
+    });
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto bg-slate-900 border border-slate-800 rounded-xl shadow-2xl p-8">
+      <h1 className="text-2xl font-bold text-white mb-2">Before we start</h1>
+      <p className="text-slate-400 text-sm mb-6">Please read the following and confirm you are happy to take part.</p>
+
+      <div className="space-y-4 mb-6">
+        {sections.map(section => (
+          <div key={section.title}>
+            <h3 className="text-sm font-semibold text-indigo-300 mb-1">{section.title}</h3>
+            <p className="text-sm text-slate-300 leading-relaxed">{section.body}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3 border-t border-slate-800 pt-6 mb-6">
+        {offersRecording && (
+          <label className="flex items-start gap-2 text-sm text-slate-300">
+            <input type="checkbox" className="mt-1" checked={recordingAccepted} onChange={(e) => setRecordingAccepted(e.target.checked)} />
+            I agree to the audio of this conversation being recorded. (Optional)
+          </label>
+        )}
+        <label className="flex items-start gap-2 text-sm text-slate-200">
+          <input type="checkbox" className="mt-1" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} />
+          I have read the information above and agree to take part in this interview.
+        </label>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <button
+          onClick={handleAccept}
+          disabled={!agreed}
+          className="flex-1 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+        >
+          {config.mode === InterviewMode.VOICE ? 'Agree & Check Microphone' : 'Agree & Start Interview'}
+        </button>
+        <button
+          onClick={onDecline}
+          className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold py-3 px-6 rounded-lg transition-colors border border-slate-700"
+        >
+          No Thanks
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentScreen;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ContextDocument } from '../types';
+import { extractDocument, SUPPORTED_CONTEXT_FILES } from '../services/ingestionService';
+import { getContextSize } from '../utils/contextRetrieval';
+
+interface ContextLibraryProps {
+  documents: ContextDocument[];
+  onChange: (documents: ContextDocument[]) => void;
+}
+
+const KIND_LABELS: Record<ContextDocument['kind'], string> = {
+  pdf: 'PDF',
+  docx: 'Word',
+  html: 'HTML',
+  csv: 'CSV',
+  text: 'Text',
+};
+
+const ContextLibrary: React.FC<ContextLibraryProps> = ({ documents, onChange }) => {
+  const [importing, setImporting] = useState<string[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    // Reset input so the same file can be selected again if needed
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setErrors([]);
+    setImporting(files.map(f => f.name));
+    const imported: ContextDocument[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        imported.push(await extractDocument(file));
+      } catch (err: any) {
+        failed.push(err.message);
+      }
+    }
+    setImporting([]);
+    setErrors(failed);
+    if (imported.length > 0) onChange([...documents, ...imported]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {documents.map(doc => {
+        const { chars, passages } = getContextSize(doc);
+        return (
+          <details key={doc.id} className="bg-slate-950 border border-slate-800 rounded-lg px-3 py-2">
+            <summary className="cursor-pointer flex items-center gap-3 text-sm">
+              <span className="px-1.5 py-0.5 rounded text-[10px] font-bold uppercase bg-slate-800 text-slate-400 border border-slate-700">{KIND_LABELS[doc.kind]}</span>
+              <span className="flex-1 truncate text-slate-200">{doc.name}</span>
+              <span className="text-xs text-slate-500 shrink-0">
+                {doc.kind === 'pdf' && `${doc.pages.length} pages · `}{Math.round(chars / 1000)}k chars · {passages} passages
+              </span>
+              <button
+                onClick={(e) => { e.preventDefault(); onChange(documents.filter(d => d.id !== doc.id)); }}
+                className="text-xs text-slate-500 hover:text-red-400"
+              >
+                Remove
+              </button>
+            </summary>
+            <p className="mt-2 text-xs text-slate-400 whitespace-pre-wrap font-mono max-h-48 overflow-y-auto">
+              {doc.pages.join('\n\n').slice(0, 2000)}
+            </p>
+          </details>
+        );
+      })}
+
+      {importing.length > 0 && (
+        <p className="text-xs text-indigo-300 animate-pulse">Extracting text from {importing.join(', ')}...</p>
+      )}
+      {errors.map(error => <p key={error} className="text-xs text-red-400">{error}</p>)}
+
+      <label className="inline-flex text-xs text-indigo-400 hover:text-white cursor-pointer items-center gap-2 bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-md transition-colors border border-slate-700">
+        <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="17 8 12 3 7 8"/><line x1="12" y1="3" x2="12" y2="15"/></svg>
+        Import Documents
+        <input type="file" multiple accept={SUPPORTED_CONTEXT_FILES} onChange={handleFiles} className="hidden" />
+      </label>
+    </div>
+  );
+};
+
+export default ContextLibrary;
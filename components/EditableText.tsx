@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+
+interface EditableTextProps {
+  value: string;
+  onSave: (value: string) => void;
+  multiline?: boolean;
+  onDelete?: () => void;
+  children: React.ReactNode; // How the value is shown when not editing
+}
+
+/**
+ * Shows the content with an "Edit" link that swaps it for a text field.
+ */
+const EditableText: React.FC<EditableTextProps> = ({ value, onSave, multiline = false, onDelete, children }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (draft !== null && draft.trim() && draft !== value) onSave(draft.trim());
+    setDraft(null);
+  };
+
+  if (draft === null) {
+    return (
+      <div className="group relative">
+        {children}
+        <div className="absolute -top-1 right-0 flex gap-3 px-1.5 py-0.5 rounded bg-slate-900/95 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <button onClick={() => setDraft(value)} className="text-[11px] text-slate-500 hover:text-indigo-300">Edit</button>
+          {onDelete && <button onClick={onDelete} className="text-[11px] text-slate-500 hover:text-red-400">Delete</button>}
+        </div>
+      </div>
+    );
+  }
+
+  const fieldClass = 'w-full bg-slate-950 border border-indigo-500/60 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none';
+  return (
+    <div className="space-y-2">
+      {multiline
+        ? <textarea autoFocus value={draft} onChange={(e) => setDraft(e.target.value)} rows={Math.min(16, Math.max(4, draft.split('\n').length + 1))} className={fieldClass} />
+        : <input autoFocus value={draft} onChange={(e) => setDraft(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSave()} className={fieldClass} />}
+      <div className="flex gap-2">
+        <button onClick={handleSave} className="px-3 py-1 rounded text-xs bg-indigo-600 hover:bg-indigo-500 text-white">Save</button>
+        <button onClick={() => setDraft(null)} className="px-3 py-1 text-xs text-slate-500 hover:text-white">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default EditableText;
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from 'react';
+import { InterviewGuide, TranscriptTurn } from '../types';
+import { computeGuideCoverage } from '../utils/guideUtils';
+
+interface GuideCoveragePanelProps {
+  guide: InterviewGuide;
+  transcript: TranscriptTurn[];
+  manuallyCovered: Set<string>;
+  onToggleQuestion: (questionId: string) => void;
+  isActive: boolean; // Only tick the clock while the session is running
+}
+
+const formatMinutes = (ms: number) => `${Math.floor(ms / 60000)}:${Math.floor((ms % 60000) / 1000).toString().padStart(2, '0')}`;
+
+const GuideCoveragePanel: React.FC<GuideCoveragePanelProps> = ({ guide, transcript, manuallyCovered, onToggleQuestion, isActive }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  const coverage = computeGuideCoverage(guide, transcript, manuallyCovered, now);
+  const mustAskTotal = Object.values(coverage.sections).reduce((sum, s) => sum + s.mustAskTotal, 0);
+  const mustAskCovered = Object.values(coverage.sections).reduce((sum, s) => sum + s.mustAskCovered, 0);
+
+  return (
+    <div className="bg-slate-900/80 border border-slate-700 rounded-xl p-4">
+      <div className="flex justify-between items-baseline mb-3">
+        <h3 className="font-bold text-slate-100 uppercase tracking-wide text-sm">Discussion Guide</h3>
+        <span className={`text-xs font-semibold ${mustAskCovered === mustAskTotal ? 'text-emerald-400' : 'text-slate-400'}`}>
+          {mustAskCovered}/{mustAskTotal} must-asks
+        </span>
+      </div>
+
+      <div className="space-y-4">
+        {guide.sections.map(section => {
+          const summary = coverage.sections[section.id];
+          const overBudget = summary.elapsedMs > section.timeBudgetMinutes * 60000;
+          const isCurrent = coverage.activeSectionId === section.id;
+          return (
+            <div key={section.id} className={`rounded-lg p-2 -mx-2 ${isCurrent ? 'bg-indigo-950/50 ring-1 ring-indigo-800' : ''}`}>
+              <div className="flex justify-between items-baseline mb-1">
+                <span className="text-sm font-semibold text-slate-200">{section.title}</span>
+                <span className={`text-[10px] font-mono ${overBudget ? 'text-amber-400' : 'text-slate-500'}`}>
+                  {formatMinutes(summary.elapsedMs)} / {section.timeBudgetMinutes}:00
+                </span>
+              </div>
+              <ul className="space-y-1">
+                {section.questions.map(question => {
+                  const state = coverage.questions[question.id];
+                  return (
+                    <li key={question.id}>
+                      <button
+                        onClick={() => onToggleQuestion(question.id)}
+                        title={state.manual ? 'Marked covered by you. Click to undo.' : state.covered ? 'Detected in the conversation.' : 'Click to mark as covered.'}
+                        className="w-full text-left flex gap-2 items-start text-xs"
+                      >
+                        <span className={`mt-0.5 w-3 h-3 shrink-0 rounded-sm border flex items-center justify-center ${
+                          state.covered ? 'bg-emerald-600 border-emerald-500' : question.mustAsk ? 'border-indigo-400' : 'border-slate-600'
+                        }`}>
+                          {state.covered && <svg width="8" height="8" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="4"><polyline points="20 6 9 17 4 12"/></svg>}
+                        </span>
+                        <span className={state.covered ? 'text-slate-500 line-through' : question.mustAsk ? 'text-slate-200' : 'text-slate-400'}>
+                          {question.text}
+                          {question.mustAsk && !state.covered && <span className="ml-1 text-[9px] uppercase text-indigo-300">must</span>}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default GuideCoveragePanel;
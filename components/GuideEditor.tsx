@@ -0,0 +1,119 @@
+import React from 'react';
+import { GuideQuestion, GuideSection, InterviewGuide } from '../types';
+import { generateId } from '../services/campaignService';
+
+interface GuideEditorProps {
+  guide: InterviewGuide;
+  onChange: (guide: InterviewGuide) => void;
+}
+
+const createQuestion = (): GuideQuestion => ({ id: generateId(6), text: '', mustAsk: true, probes: [] });
+
+const createSection = (): GuideSection => ({
+  id: generateId(6),
+  title: '',
+  timeBudgetMinutes: 5,
+  questions: [createQuestion()],
+});
+
+const GuideEditor: React.FC<GuideEditorProps> = ({ guide, onChange }) => {
+  const totalMinutes = guide.sections.reduce((sum, s) => sum + s.timeBudgetMinutes, 0);
+
+  const updateSection = (sectionId: string, patch: Partial<GuideSection>) =>
+    onChange({ sections: guide.sections.map(s => s.id === sectionId ? { ...s, ...patch } : s) });
+
+  const removeSection = (sectionId: string) =>
+    onChange({ sections: guide.sections.filter(s => s.id !== sectionId) });
+
+  const updateQuestion = (section: GuideSection, questionId: string, patch: Partial<GuideQuestion>) =>
+    updateSection(section.id, { questions: section.questions.map(q => q.id === questionId ? { ...q, ...patch } : q) });
+
+  const removeQuestion = (section: GuideSection, questionId: string) =>
+    updateSection(section.id, { questions: section.questions.filter(q => q.id !== questionId) });
+
+  return (
+    <div className="space-y-4">
+      {guide.sections.map((section, sectionIdx) => (
+        <div key={section.id} className="bg-slate-950 border border-slate-800 rounded-lg p-4">
+          <div className="flex gap-3 items-center mb-3">
+            <span className="text-xs font-bold text-slate-500">{sectionIdx + 1}.</span>
+            <input
+              type="text"
+              className="flex-1 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              placeholder="Section title, e.g. Current workflow"
+              value={section.title}
+              onChange={(e) => updateSection(section.id, { title: e.target.value })}
+            />
+            <label className="flex items-center gap-1 text-xs text-slate-400">
+              <input
+                type="number"
+                min={1}
+                className="w-16 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                value={section.timeBudgetMinutes}
+                onChange={(e) => updateSection(section.id, { timeBudgetMinutes: Math.max(1, Number(e.target.value) || 1) })}
+              />
+              min
+            </label>
+            <button onClick={() => removeSection(section.id)} className="text-xs text-slate-500 hover:text-red-400">Remove</button>
+          </div>
+
+          <div className="space-y-3 pl-5">
+            {section.questions.map(question => (
+              <div key={question.id} className="space-y-1">
+                <div className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    className="flex-1 bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-300 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                    placeholder="Question"
+                    value={question.text}
+                    onChange={(e) => updateQuestion(section, question.id, { text: e.target.value })}
+                  />
+                  <button
+                    onClick={() => updateQuestion(section, question.id, { mustAsk: !question.mustAsk })}
+                    className={`px-2 py-1 rounded text-[10px] font-bold uppercase tracking-wider border transition-colors ${
+                      question.mustAsk
+                        ? 'bg-indigo-900/40 border-indigo-500 text-indigo-200'
+                        : 'bg-slate-900 border-slate-700 text-slate-500'
+                    }`}
+                  >
+                    {question.mustAsk ? 'Must ask' : 'Optional'}
+                  </button>
+                  <button onClick={() => removeQuestion(section, question.id)} className="text-slate-600 hover:text-red-400 px-1">×</button>
+                </div>
+                <input
+                  type="text"
+                  className="w-full bg-transparent border-b border-slate-800 p-1 text-xs text-slate-400 focus:border-indigo-500 focus:outline-none"
+                  placeholder="Optional probes, separated by semicolons"
+                  value={question.probes.join('; ')}
+                  onChange={(e) => updateQuestion(section, question.id, {
+                    probes: e.target.value.split(';').map(p => p.trimStart()).filter((p, i, all) => p || i === all.length - 1),
+                  })}
+                />
+              </div>
+            ))}
+            <button
+              onClick={() => updateSection(section.id, { questions: [...section.questions, createQuestion()] })}
+              className="text-xs text-indigo-400 hover:text-white"
+            >
+              + Add question
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-between items-center">
+        <button
+          onClick={() => onChange({ sections: [...guide.sections, createSection()] })}
+          className="text-xs text-indigo-400 hover:text-white bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-md transition-colors border border-slate-700"
+        >
+          + Add section
+        </button>
+        {guide.sections.length > 0 && (
+          <span className="text-xs text-slate-500">Planned duration: {totalMinutes} min</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuideEditor;
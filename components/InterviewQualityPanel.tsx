@@ -0,0 +1,117 @@
+import React from 'react';
+import { CanvasItem, CanvasQuadrant, InterviewQuality, QuestionFlag } from '../types';
+import { getQuadrantLabel } from '../utils/canvasUtils';
+import { getQualityWarnings, INTERVIEWER_TALK_SHARE_LIMIT } from '../utils/qualityUtils';
+
+interface InterviewQualityPanelProps {
+  quality: InterviewQuality;
+  ledItems: { quadrant: CanvasQuadrant; item: CanvasItem }[]; // Canvas points resting on answers to leading questions
+  focusedTurn: number | null;
+  onShowQuestion: (flag: QuestionFlag) => void;
+  actions?: React.ReactNode; // e.g. the regenerate control, placed in the header
+}
+
+const scoreColor = (score: number) =>
+  score >= 75 ? 'text-emerald-400' : score >= 50 ? 'text-amber-400' : 'text-red-400';
+
+const Metric: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = 'text-white' }) => (
+  <div className="bg-slate-950/60 border border-slate-800 rounded-lg px-3 py-2">
+    <div className={`text-xl font-bold ${className}`}>{value}</div>
+    <div className="text-[11px] uppercase tracking-wider text-slate-500">{label}</div>
+  </div>
+);
+
+const FlagList: React.FC<{
+  title: string;
+  flags: QuestionFlag[];
+  focusedTurn: number | null;
+  onShow: (flag: QuestionFlag) => void;
+}> = ({ title, flags, focusedTurn, onShow }) => (
+  <div>
+    <h3 className="text-sm font-semibold text-slate-300 mb-2">{title} ({flags.length})</h3>
+    {flags.length === 0 ? (
+      <p className="text-xs text-slate-600 italic">None found.</p>
+    ) : (
+      <ul className="space-y-3">
+        {flags.map(flag => (
+          <li
+            key={flag.turnIndex}
+            className={`rounded-lg border p-3 text-sm ${flag.turnIndex === focusedTurn ? 'border-indigo-500/60 bg-indigo-950/40' : 'border-slate-800 bg-slate-950/40'}`}
+          >
+            <p className="text-slate-200 italic">&ldquo;{flag.quote}&rdquo;</p>
+            <p className="text-xs text-slate-400 mt-1">{flag.reason}</p>
+            <p className="text-xs text-emerald-300/80 mt-1">Try: &ldquo;{flag.rewrite}&rdquo;</p>
+            <button onClick={() => onShow(flag)} className="text-[11px] text-indigo-400 hover:text-white mt-2">Show in transcript</button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * Review of the AI interviewer: counted measures, flagged questions and prompt suggestions.
+ */
+const InterviewQualityPanel: React.FC<InterviewQualityPanelProps> = ({ quality, ledItems, focusedTurn, onShowQuestion, actions }) => {
+  const warnings = getQualityWarnings(quality);
+  const talkShare = Math.round(quality.interviewerTalkShare * 100);
+
+  return (
+    <div id="interview-quality" className="bg-slate-900 border border-slate-700 rounded-2xl p-6 mb-8">
+      <h2 className="text-xl font-bold text-white mb-4 flex flex-wrap items-center gap-2">
+        Interview Quality
+        <span className={`text-base ${scoreColor(quality.score)}`}>{quality.score}/100</span>
+        {actions}
+      </h2>
+
+      {warnings.length > 0 && (
+        <div className="mb-4 bg-amber-950/30 border border-amber-500/40 rounded-lg px-4 py-3">
+          <p className="text-amber-200 font-semibold text-sm">Read this session's findings with care</p>
+          <ul className="text-sm text-amber-200/70 list-disc pl-5 mt-1">
+            {warnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <Metric label="Interviewer talk" value={`${talkShare}%`} className={quality.interviewerTalkShare > INTERVIEWER_TALK_SHARE_LIMIT ? 'text-amber-400' : 'text-white'} />
+        <Metric label="Questions asked" value={String(quality.questionCount)} />
+        <Metric label="Follow-up probes" value={String(quality.followUpProbes)} />
+        <Metric label="Style adherence" value={`${quality.styleAdherence.score}/100`} className={scoreColor(quality.styleAdherence.score)} />
+      </div>
+
+      <p className="text-slate-300 text-sm leading-relaxed mb-2">{quality.summary}</p>
+      <p className="text-slate-400 text-xs mb-6">Style: {quality.styleAdherence.comment}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <FlagList title="Leading questions" flags={quality.leadingQuestions} focusedTurn={focusedTurn} onShow={onShowQuestion} />
+        <FlagList title="Double-barreled questions" flags={quality.doubleBarreledQuestions} focusedTurn={focusedTurn} onShow={onShowQuestion} />
+      </div>
+
+      {ledItems.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold text-slate-300 mb-2">Canvas points based on answers to leading questions</h3>
+          <ul className="text-sm text-slate-400 space-y-1">
+            {ledItems.map(({ quadrant, item }) => (
+              <li key={`${quadrant}-${item.text}`}>
+                <span className="text-[11px] uppercase tracking-wider text-slate-500 mr-2">{getQuadrantLabel(quadrant)}</span>
+                {item.text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {quality.suggestions.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-slate-300 mb-2">Suggestions for the interviewer prompt</h3>
+          <ul className="text-sm text-slate-400 list-disc pl-5 space-y-1">
+            {quality.suggestions.map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InterviewQualityPanel;
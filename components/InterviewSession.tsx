@@ -1,23 +1,59 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { GeminiLiveService, GeminiChatService } from '../services/geminiService';
-import { DeepResearchData, LogMessage, InterviewMode } from '../types';
-import { arrayBufferToBase64, float32ToInt16, pcmToAudioBuffer, base64ToUint8Array } from '../utils/audioUtils';
+import { GeminiLiveService, GeminiChatService, LiveConnectionState, MAX_RECONNECT_ATTEMPTS, updateLiveCanvas } from '../services/geminiService';
+import { getLlmProvider } from '../services/llm';
+import { InterviewRecorder } from '../services/recordingService';
+import { CAPTURE_SAMPLE_RATE, CaptureGate, listMicrophones, MicrophoneCapture, openMicrophone } from '../services/audioCaptureService';
+import { getObserverUrl, ObserverHost, SessionStatus } from '../services/observerService';
+import { ConsentRecord, DeepResearchData, InterviewMode, InterviewRecording, LiveCanvas, Speaker, TranscriptTurn, Whisper } from '../types';
+import { arrayBufferToBase64, pcmToAudioBuffer, base64ToUint8Array } from '../utils/audioUtils';
+import { appendToTranscript, finalizeModelTurn, formatOffset, getConversationTurns, interruptModelTurn } from '../utils/transcriptUtils';
+import { createEmptyLiveCanvas, getQuadrantLabel, getThinQuadrants } from '../utils/canvasUtils';
+import { computeGuideCoverage, getGuideQuestions } from '../utils/guideUtils';
+import { formatClock, formatPacingNote, getDurationMinutes, getPacingPhase, PacingPhase } from '../utils/pacingUtils';
+import GuideCoveragePanel from './GuideCoveragePanel';
+import LiveCanvasPanel from './LiveCanvasPanel';
+import ConsentScreen from './ConsentScreen';
+import MicLevelMeter from './MicLevelMeter';
+import MicCheck, { MicrophoneSettings } from './MicCheck';
+
+// Don't steer toward gaps while the interviewer is still on introductions
+const MIN_USER_TURNS_BEFORE_STEERING = 3;
 
 interface InterviewSessionProps {
   config: DeepResearchData;
-  onComplete: (transcript: string) => void;
+  onComplete: (transcript: TranscriptTurn[], recording?: InterviewRecording) => void;
+  onTranscriptChange?: (transcript: TranscriptTurn[]) => void;
+  onConsent: (consent: ConsentRecord) => void;
+  onWithdraw: () => void; // Declined consent or withdrew mid-interview; nothing may be kept
+  sessionId?: string; // Lets a researcher follow the session from an observer window
+  onWhisper?: (whisper: Whisper) => void; // Called once a whisper has been passed to the interviewer
 }
 
-const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete }) => {
-  const [status, setStatus] = useState<'idle' | 'connecting' | 'connected' | 'error' | 'finished'>('idle');
-  const [logs, setLogs] = useState<LogMessage[]>([]);
+const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete, onTranscriptChange, onConsent, onWithdraw, sessionId, onWhisper }) => {
+  const [status, setStatus] = useState<SessionStatus>('idle');
+  // The study's mode is where the interview starts; the participant can switch at any time
+  const [mode, setMode] = useState<InterviewMode>(config.mode);
+  const [isSwitchingMode, setIsSwitchingMode] = useState(false);
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [logs, setLogs] = useState<TranscriptTurn[]>([]);
   const [isMuted, setIsMuted] = useState(false);
+  const [isHeard, setIsHeard] = useState(false); // The participant's audio is reaching the interviewer
+  // Chosen in the microphone check; null until then
+  const [micSettings, setMicSettings] = useState<MicrophoneSettings | null>(null);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [isTalkHeld, setIsTalkHeld] = useState(false); // Push-to-talk button or Space held down
   const [inputText, setInputText] = useState('');
+  // Guide questions the researcher ticked off by hand
+  const [manuallyCovered, setManuallyCovered] = useState<Set<string>>(new Set());
+  const [liveCanvas, setLiveCanvas] = useState<LiveCanvas>(createEmptyLiveCanvas);
+  const [isCanvasUpdating, setIsCanvasUpdating] = useState(false);
+  const [consent, setConsent] = useState<ConsentRecord | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
   
   // Refs for Audio Handling
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioStreamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null); 
+  const captureRef = useRef<MicrophoneCapture | null>(null);
   const bufferSourceRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   
   // Service Refs
@@ -25,7 +61,37 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
   const chatServiceRef = useRef<GeminiChatService | null>(null);
   
   const nextStartTimeRef = useRef<number>(0);
-  const logsRef = useRef<LogMessage[]>([]); 
+  // Interviewer audio scheduled back to back, in AudioContext time; tells how much a barge-in let through
+  const modelPlaybackRef = useRef<{ startedAt: number; endsAt: number } | null>(null);
+  const recorderRef = useRef<InterviewRecorder | null>(null);
+  const consentRef = useRef<ConsentRecord | null>(null);
+  // The end button and the hard stop can both fire; the interview is only handed over once
+  const finishingRef = useRef(false);
+  const logsRef = useRef<TranscriptTurn[]>([]); 
+  const modeRef = useRef<InterviewMode>(config.mode); // Read by service callbacks to tag each turn
+
+  // Live canvas extraction: one request at a time, re-run once if turns arrived meanwhile
+  const liveCanvasRef = useRef<LiveCanvas>(createEmptyLiveCanvas());
+  const canvasJobRef = useRef({ running: false, pending: false });
+  const processedUserTurnsRef = useRef(0);
+  const lastSteeredGapsRef = useRef('');
+
+  // Observer whispers wait here until the interviewer is connected
+  const observerRef = useRef<ObserverHost | null>(null);
+  const whispersRef = useRef<Whisper[]>([]);
+  const pendingWhispersRef = useRef<Whisper[]>([]);
+
+  // Pacing: the clock starts with the interview, after consent and the microphone check
+  const durationMinutes = getDurationMinutes(config);
+  const startedAtRef = useRef<number | null>(null);
+  const pacingPhaseRef = useRef<PacingPhase>('on-track');
+
+  // Mute and push-to-talk close the capture gate itself, so no audio leaves the browser
+  const captureGate: CaptureGate = isMuted ? 'closed'
+    : micSettings?.mode === 'push-to-talk' ? (isTalkHeld ? 'open' : 'closed')
+    : 'voice';
+  const captureGateRef = useRef(captureGate);
+  captureGateRef.current = captureGate;
 
   // Canvas Ref for Visualizer
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -33,27 +99,47 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
   const scrollRef = useRef<HTMLDivElement>(null);
 
   /**
-   * Appends or creates a log entry. 
-   * For streaming (Voice mode), it merges consecutive fragments from the same role.
+   * Appends or creates a transcript turn. 
+   * For streaming (Voice mode), it merges consecutive fragments from the same speaker.
    */
-  const handleStreamingLog = (role: 'user' | 'model' | 'system', text: string) => {
-    setLogs(prev => {
-      // If the last log is from the same person, append the text instead of a new line
-      if (prev.length > 0 && prev[prev.length - 1].role === role && role !== 'system') {
-        const lastLog = prev[prev.length - 1];
-        // Ensure we don't double-space if fragments already have them
-        const needsSpace = lastLog.text.length > 0 && !lastLog.text.endsWith(' ') && !text.startsWith(' ');
-        const updatedText = lastLog.text + (needsSpace ? ' ' : '') + text;
-        
-        const newLogs = [...prev.slice(0, -1), { ...lastLog, text: updatedText }];
-        logsRef.current = newLogs;
-        return newLogs;
-      }
-      
-      const newLog = { role, text, timestamp: Date.now() };
-      const newLogs = [...prev, newLog];
-      logsRef.current = newLogs;
-      return newLogs;
+  const handleStreamingLog = (speaker: Speaker, text: string) => {
+    updateLogs(turns => appendToTranscript(turns, speaker, text, modeRef.current));
+  };
+
+  // The ref is updated at once so a turn logged right before finishing is in the saved transcript
+  const updateLogs = (update: (turns: TranscriptTurn[]) => TranscriptTurn[]) => {
+    logsRef.current = update(logsRef.current);
+    setLogs(logsRef.current);
+  };
+
+  // Silences the interviewer at once: stops what is playing and drops everything queued
+  const stopPlayback = () => {
+    bufferSourceRef.current.forEach(source => {
+        try { source.stop(); } catch(e) {}
+    });
+    bufferSourceRef.current.clear();
+    nextStartTimeRef.current = 0;
+    modelPlaybackRef.current = null;
+  };
+
+  // Barge-in: the participant started talking while the interviewer was still speaking
+  const handleInterrupted = () => {
+    const ctx = audioContextRef.current;
+    const playback = modelPlaybackRef.current;
+    stopPlayback();
+    if (!ctx || !playback || ctx.currentTime >= playback.endsAt) return; // Everything had been heard already
+
+    const heardFraction = Math.max(0, ctx.currentTime - playback.startedAt) / (playback.endsAt - playback.startedAt);
+    recorderRef.current?.cutInterviewerAudio(Date.now());
+    updateLogs(turns => interruptModelTurn(turns, heardFraction));
+  };
+
+  const toggleQuestionCovered = (questionId: string) => {
+    setManuallyCovered(prev => {
+      const next = new Set(prev);
+      if (next.has(questionId)) next.delete(questionId);
+      else next.add(questionId);
+      return next;
     });
   };
 
@@ -61,8 +147,130 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
     if (scrollRef.current) {
         scrollRef.current.scrollIntoView({ behavior: 'smooth' });
     }
+    if (logs.length > 0) {
+        onTranscriptChange?.(logs);
+    }
+
+    // A user turn is complete once it is no longer streaming
+    const completedUserTurns = logs.filter(t => t.speaker === 'user' && !t.partial).length;
+    if (completedUserTurns > processedUserTurnsRef.current && statusRef.current === 'connected') {
+        processedUserTurnsRef.current = completedUserTurns;
+        void refreshLiveCanvas();
+    }
   }, [logs]);
 
+  // Tell the interviewer which quadrants are still thin, but only when that set changes
+  const steerTowardGaps = (canvas: LiveCanvas) => {
+    if (processedUserTurnsRef.current < MIN_USER_TURNS_BEFORE_STEERING) return;
+    const gaps = getThinQuadrants(canvas);
+    const key = gaps.join(',');
+    if (gaps.length === 0 || key === lastSteeredGapsRef.current) return;
+    lastSteeredGapsRef.current = key;
+
+    const note = `The live Empathy Canvas is still thin on: ${gaps.map(getQuadrantLabel).join(', ')}. When it fits naturally, steer toward these areas.`;
+    liveServiceRef.current?.sendGuidance(note);
+    chatServiceRef.current?.sendGuidance(note);
+  };
+
+  const deliverWhisper = (whisper: Whisper) => {
+    const note = `The researcher observing this interview asks: "${whisper.text}". Act on it at the next natural moment.`;
+    liveServiceRef.current?.sendGuidance(note);
+    chatServiceRef.current?.sendGuidance(note);
+
+    const delivered = { ...whisper, deliveredAt: Date.now() };
+    whispersRef.current = whispersRef.current.map(w => w.id === whisper.id ? delivered : w);
+    observerRef.current?.update({ whispers: whispersRef.current });
+    onWhisper?.(delivered);
+  };
+
+  const handleWhisper = (whisper: Whisper) => {
+    whispersRef.current = [...whispersRef.current, whisper];
+    observerRef.current?.update({ whispers: whispersRef.current });
+    if (statusRef.current === 'connected') deliverWhisper(whisper);
+    else pendingWhispersRef.current.push(whisper);
+  };
+
+  useEffect(() => {
+    if (!sessionId || typeof BroadcastChannel === 'undefined') return;
+    const host = new ObserverHost(sessionId, config.challenge, (whisper) => handleWhisper(whisper));
+    observerRef.current = host;
+    return () => {
+        host.close();
+        observerRef.current = null;
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    observerRef.current?.update({ transcript: logs });
+  }, [logs]);
+
+  useEffect(() => {
+    observerRef.current?.update({ status });
+    if (status === 'connected' && pendingWhispersRef.current.length > 0) {
+        const pending = pendingWhispersRef.current;
+        pendingWhispersRef.current = [];
+        pending.forEach(deliverWhisper);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (!consent || status === 'finished') return;
+    const timer = setInterval(() => {
+        if (startedAtRef.current !== null) setElapsedMs(Date.now() - startedAtRef.current);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [consent, status]);
+
+  const getRemainingMustAsk = () => {
+    if (!config.guide) return [];
+    const coverage = computeGuideCoverage(config.guide, logs, manuallyCovered);
+    return getGuideQuestions(config.guide).filter(q => q.mustAsk && !coverage.questions[q.id]?.covered).map(q => q.text);
+  };
+
+  // Time checks go to the interviewer as each phase begins; the booked length is a hard stop
+  useEffect(() => {
+    const phase = getPacingPhase(elapsedMs, durationMinutes);
+    if (phase === pacingPhaseRef.current || status === 'finished') return;
+    if (phase === 'over') {
+        pacingPhaseRef.current = phase;
+        handleStreamingLog('system', 'Time is up. Ending the interview.');
+        void handleFinish();
+        return;
+    }
+    // Retried on the next tick if the interviewer is not reachable right now
+    if (status !== 'connected') return;
+    pacingPhaseRef.current = phase;
+    const note = formatPacingNote(phase, elapsedMs, durationMinutes, getRemainingMustAsk());
+    if (note) {
+        liveServiceRef.current?.sendGuidance(note);
+        chatServiceRef.current?.sendGuidance(note);
+    }
+  }, [elapsedMs]);
+
+  const refreshLiveCanvas = async () => {
+    const job = canvasJobRef.current;
+    if (job.running) {
+        job.pending = true;
+        return;
+    }
+    job.running = true;
+    setIsCanvasUpdating(true);
+    try {
+        do {
+            job.pending = false;
+            const updated = await updateLiveCanvas(config, liveCanvasRef.current, logsRef.current);
+            liveCanvasRef.current = updated;
+            setLiveCanvas(updated);
+            steerTowardGaps(updated);
+        } while (job.pending && statusRef.current === 'connected');
+    } catch (err) {
+        console.error("Live canvas update failed", err);
+    } finally {
+        job.running = false;
+        setIsCanvasUpdating(false);
+    }
+  };
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -70,17 +278,46 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
     };
   }, []);
 
-  const handleStart = async () => {
+  useEffect(() => {
+    captureRef.current?.setGate(captureGate);
+  }, [captureGate]);
+
+  // Push-to-talk on the Space bar, unless the participant is typing somewhere
+  useEffect(() => {
+    if (mode !== InterviewMode.VOICE || micSettings?.mode !== 'push-to-talk') return;
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLElement && !!e.target.closest('input, textarea, select, [contenteditable="true"]');
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      if (!e.repeat) setIsTalkHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      if (!isTyping(e)) e.preventDefault(); // Or a focused button would be clicked
+      setIsTalkHeld(false);
+    };
+    // Letting go outside the window must not leave the microphone open
+    const handleBlur = () => setIsTalkHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [mode, micSettings?.mode]);
+
+  const handleStart = async (deviceId?: string) => {
     setStatus('connecting');
-    const apiKey = process.env.API_KEY || '';
-    if (!apiKey) {
+    if (!getLlmProvider().isConfigured) {
         handleStreamingLog('system', 'API Key missing');
         setStatus('error');
         return;
     }
 
-    if (config.mode === InterviewMode.VOICE) {
-        await startVoiceSession();
+    if (modeRef.current === InterviewMode.VOICE) {
+        await startVoiceSession(deviceId);
     } else {
         await startTextSession();
     }
@@ -89,9 +326,10 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
   const startTextSession = async () => {
     try {
         chatServiceRef.current = new GeminiChatService(config);
+        // After a switch from voice the chat picks up the conversation so far
         await chatServiceRef.current.start((initialMsg) => {
              handleStreamingLog('model', initialMsg);
-        });
+        }, logsRef.current);
         setStatus('connected');
     } catch (err) {
         console.error(err);
@@ -100,13 +338,60 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
     }
   };
 
-  const startVoiceSession = async () => {
+  // Opens the microphone and feeds it to the session and the recorder
+  const startCapture = async (deviceId?: string) => {
+    const stream = await openMicrophone(deviceId);
+    audioStreamRef.current = stream;
+    const capture = await MicrophoneCapture.start(stream, {
+        onFrame: (pcm, startedAt) => {
+            if (statusRef.current !== 'connected') return;
+            recorderRef.current?.addParticipantAudio(pcm, CAPTURE_SAMPLE_RATE, startedAt);
+        },
+        onAudio: (pcm) => {
+            if (statusRef.current !== 'connected') return;
+            liveServiceRef.current?.sendAudioChunk(arrayBufferToBase64(pcm.buffer));
+        },
+        onSpeechEnd: () => {
+            if (statusRef.current === 'connected') liveServiceRef.current?.endAudioStream();
+        },
+        onHeardChange: setIsHeard,
+    });
+    capture.setGate(captureGateRef.current);
+    captureRef.current = capture;
+    setMicrophones(await listMicrophones());
+  };
+
+  const stopCapture = async () => {
+    if (captureRef.current) {
+        await captureRef.current.stop();
+        captureRef.current = null;
+    }
+    if (audioStreamRef.current) {
+        audioStreamRef.current.getTracks().forEach(track => track.stop());
+        audioStreamRef.current = null;
+    }
+  };
+
+  const handleSwitchMicrophone = async (deviceId: string) => {
+    setMicSettings(prev => prev && { ...prev, deviceId });
+    await stopCapture();
+    try {
+        await startCapture(deviceId);
+    } catch (err: any) {
+        console.error("Failed to switch microphone", err);
+        handleStreamingLog('system', `Could not switch the microphone: ${err.message}`);
+    }
+  };
+
+  const startVoiceSession = async (deviceId?: string) => {
     try {
-        liveServiceRef.current = new GeminiLiveService(config);
+        const service = new GeminiLiveService(config);
+        liveServiceRef.current = service;
 
         // 1. Setup Audio Context
         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-        audioContextRef.current = new AudioContextClass({ sampleRate: 24000 });
+        // Native rate: 24kHz model audio is resampled by the buffer sources, and some devices refuse other rates
+        audioContextRef.current = new AudioContextClass();
         
         // Setup Analyzer for Visualizer
         analyzerRef.current = audioContextRef.current.createAnalyser();
@@ -114,8 +399,11 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
 
         // 2. Connect to Gemini Live
         handleStreamingLog('system', 'Connecting to Gemini Live...');
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        audioStreamRef.current = stream;
+
+        // Only record when the study asks for it and the participant agreed; one recording spans every voice part
+        if (!recorderRef.current && config.recordAudio && consentRef.current?.recordingAccepted) {
+            recorderRef.current = new InterviewRecorder();
+        }
 
         await liveServiceRef.current.connect(
             // On Audio Data (from Model)
@@ -138,7 +426,16 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
                 const currentTime = ctx.currentTime;
                 const startTime = Math.max(currentTime, nextStartTimeRef.current);
                 source.start(startTime);
+                recorderRef.current?.addInterviewerAudio(
+                    new Int16Array(rawBytes.buffer, rawBytes.byteOffset, rawBytes.byteLength >> 1),
+                    buffer.sampleRate,
+                    Date.now() + (startTime - currentTime) * 1000
+                );
                 nextStartTimeRef.current = startTime + buffer.duration;
+                const playback = modelPlaybackRef.current;
+                modelPlaybackRef.current = playback && playback.endsAt > currentTime
+                    ? { ...playback, endsAt: nextStartTimeRef.current }
+                    : { startedAt: startTime, endsAt: nextStartTimeRef.current };
                 source.onended = () => {
                    bufferSourceRef.current.delete(source);
                 };
@@ -148,32 +445,23 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
                 handleStreamingLog(isUser ? 'user' : 'model', text);
             },
             () => {
-              setStatus('finished');
+              // A session closed by a switch to text does not end the interview
+              if (liveServiceRef.current === service) setStatus('finished');
+            },
+            {
+              getTranscript: () => logsRef.current,
+              isModeSwitch: getConversationTurns(logsRef.current).length > 0,
+              onConnectionChange: handleConnectionChange,
+              onInterrupted: handleInterrupted,
+              onTurnComplete: () => updateLogs(finalizeModelTurn),
             }
         );
 
         setStatus('connected');
         handleStreamingLog('system', 'Connected. Listening...');
 
-        // 3. Setup Microphone Input Stream
-        const inputCtx = new AudioContextClass({ sampleRate: 16000 });
-        const source = inputCtx.createMediaStreamSource(stream);
-        
-        const processor = inputCtx.createScriptProcessor(4096, 1, 1);
-        processorRef.current = processor;
-
-        processor.onaudioprocess = (e) => {
-            if (isMuted || statusRef.current !== 'connected') return;
-
-            const inputData = e.inputBuffer.getChannelData(0);
-            const pcmInt16 = float32ToInt16(inputData);
-            const base64Data = arrayBufferToBase64(pcmInt16.buffer);
-            
-            liveServiceRef.current?.sendAudioChunk(base64Data);
-        };
-
-        source.connect(processor);
-        processor.connect(inputCtx.destination); 
+        // 3. Setup Microphone Input Stream: only what passes the capture gate is streamed
+        await startCapture(deviceId);
 
     } catch (err) {
         console.error(err);
@@ -182,13 +470,27 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
     }
   };
 
+  // Microphone audio is only forwarded while connected, so nothing is sent into a dead session
+  const handleConnectionChange = (state: LiveConnectionState, attempt: number) => {
+    if (state === 'reconnecting') {
+        setStatus('reconnecting');
+        handleStreamingLog('system', `Connection dropped. Reconnecting (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})...`);
+    } else if (state === 'connected') {
+        setStatus('connected');
+        handleStreamingLog('system', 'Reconnected. Resuming the interview.');
+    } else {
+        setStatus('disconnected');
+        handleStreamingLog('system', 'Could not reconnect. Resume when the network is back, or end the interview to keep what was recorded.');
+    }
+  };
+
   // Status Ref Hack for closure
   const statusRef = useRef(status);
   useEffect(() => { statusRef.current = status; }, [status]);
 
   // Visualizer Loop
   useEffect(() => {
-    if (status !== 'connected' || config.mode === InterviewMode.TEXT) return;
+    if (status !== 'connected' || mode === InterviewMode.TEXT) return;
     let animationFrameId: number;
 
     const render = () => {
@@ -220,21 +522,14 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
     };
     render();
     return () => cancelAnimationFrame(animationFrameId);
-  }, [status, config.mode]);
+  }, [status, mode]);
 
 
   const handleDisconnect = async () => {
-    if (liveServiceRef.current) {
-        await liveServiceRef.current.disconnect();
-    }
-    if (processorRef.current) {
-        processorRef.current.disconnect();
-        processorRef.current = null;
-    }
-    if (audioStreamRef.current) {
-        audioStreamRef.current.getTracks().forEach(track => track.stop());
-        audioStreamRef.current = null;
-    }
+    const liveService = liveServiceRef.current;
+    liveServiceRef.current = null;
+    await liveService?.disconnect();
+    await stopCapture();
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') {
         try {
             await audioContextRef.current.close();
@@ -243,20 +538,89 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
         }
         audioContextRef.current = null;
     }
-    bufferSourceRef.current.forEach(source => {
-        try { source.stop(); } catch(e) {}
-    });
-    bufferSourceRef.current.clear();
+    stopPlayback();
   };
 
   const handleFinish = async () => {
+    if (finishingRef.current) return;
+    finishingRef.current = true;
+    setIsFinishing(true);
     await handleDisconnect();
     setStatus('finished');
-    const fullTranscript = logsRef.current
-        .filter(l => l.role !== 'system')
-        .map(l => `${l.role.toUpperCase()}: ${l.text}`)
-        .join('\n');
-    onComplete(fullTranscript);
+    const recording = recorderRef.current?.finish() ?? undefined;
+    recorderRef.current = null;
+    onComplete(logsRef.current, recording);
+  };
+
+  // The consent button starts a text interview; a voice interview first goes through the microphone check
+  const handleAcceptConsent = (record: ConsentRecord) => {
+    consentRef.current = record;
+    setConsent(record);
+    onConsent(record);
+    if (config.mode !== InterviewMode.VOICE) {
+        startedAtRef.current = Date.now();
+        void handleStart();
+    }
+  };
+
+  const handleMicCheckDone = (settings: MicrophoneSettings) => {
+    if (startedAtRef.current === null) startedAtRef.current = Date.now();
+    setMicSettings(settings);
+    void startVoice(settings.deviceId);
+  };
+
+  // Backing out of the microphone check only ends the interview if it has not started yet
+  const handleMicCheckCancel = () => {
+    if (!chatServiceRef.current) {
+        onWithdraw();
+        return;
+    }
+    modeRef.current = InterviewMode.TEXT;
+    setMode(InterviewMode.TEXT);
+  };
+
+  // Guidance the chat had queued is passed on, so no whisper or time check is lost in the switch
+  const startVoice = async (deviceId: string) => {
+    if (chatServiceRef.current) handleStreamingLog('system', 'Switched to voice.');
+    const pendingGuidance = chatServiceRef.current?.takePendingGuidance() ?? [];
+    chatServiceRef.current = null;
+    await handleStart(deviceId);
+    pendingGuidance.forEach(note => liveServiceRef.current?.sendGuidance(note));
+  };
+
+  /**
+   * Moves the interview between voice and text. The conversation so far goes to the new
+   * service, and every turn keeps the mode it was held in.
+   */
+  const handleSwitchMode = async () => {
+    const next = mode === InterviewMode.VOICE ? InterviewMode.TEXT : InterviewMode.VOICE;
+    setIsSwitchingMode(true);
+    try {
+        if (next === InterviewMode.TEXT) {
+            await handleDisconnect();
+            setIsTalkHeld(false);
+        }
+        modeRef.current = next;
+        setMode(next);
+        if (next === InterviewMode.TEXT) {
+            handleStreamingLog('system', 'Switched to text chat.');
+            setStatus('connecting');
+            await startTextSession();
+        } else if (micSettings) {
+            await startVoice(micSettings.deviceId);
+        }
+        // Without microphone settings the check is shown first and starts the voice session
+    } finally {
+        setIsSwitchingMode(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!confirm('Withdraw from this interview? Everything recorded so far will be deleted.')) return;
+    await handleDisconnect();
+    recorderRef.current = null;
+    setStatus('finished');
+    onWithdraw();
   };
 
   const sendTextMessage = async (e: React.FormEvent) => {
@@ -278,115 +642,232 @@ const InterviewSession: React.FC<InterviewSessionProps> = ({ config, onComplete
       }
   };
 
+  const pacingPhase = getPacingPhase(elapsedMs, durationMinutes);
+
+  if (!consent) {
+    return <ConsentScreen config={config} onAccept={handleAcceptConsent} onDecline={onWithdraw} />;
+  }
+
+  if (mode === InterviewMode.VOICE && !micSettings) {
+    return <MicCheck onStart={handleMicCheckDone} onCancel={handleMicCheckCancel} />;
+  }
+
+  const isPushToTalk = micSettings?.mode === 'push-to-talk';
+
   return (
-    <div className="flex flex-col h-full max-w-4xl mx-auto p-4 relative">
-        {/* Header */}
-        <div className="flex justify-between items-center mb-6 bg-slate-900/80 p-4 rounded-xl border border-slate-700 backdrop-blur">
-            <div>
-                <h2 className="text-xl font-bold text-slate-100">Live Interview</h2>
-                <div className="flex items-center gap-2 mt-1">
-                    <span className={`w-2 h-2 rounded-full ${status === 'connected' ? 'bg-green-500 animate-pulse' : 'bg-slate-500'}`}></span>
-                    <span className="text-xs text-slate-400 uppercase tracking-wider">{status === 'idle' ? 'Ready to Start' : status}</span>
+    <div className="flex flex-col lg:flex-row gap-2 max-w-7xl mx-auto">
+        <div className="flex flex-col h-full flex-1 w-full max-w-4xl mx-auto p-4 relative">
+            {/* Header */}
+            <div className="flex justify-between items-center mb-6 bg-slate-900/80 p-4 rounded-xl border border-slate-700 backdrop-blur">
+                <div>
+                    <h2 className="text-xl font-bold text-slate-100">Live Interview</h2>
+                    <div className="flex items-center gap-2 mt-1">
+                        <span className={`w-2 h-2 rounded-full ${
+                            status === 'connected' ? 'bg-green-500 animate-pulse'
+                            : status === 'reconnecting' ? 'bg-amber-500 animate-pulse'
+                            : status === 'disconnected' ? 'bg-red-500'
+                            : 'bg-slate-500'
+                        }`}></span>
+                        <span className="text-xs text-slate-400 uppercase tracking-wider">{status === 'idle' ? 'Ready to Start' : status}</span>
+                        <span className={`ml-3 font-mono text-xs ${
+                            pacingPhase === 'wrap-up' || pacingPhase === 'over' ? 'text-red-400'
+                            : pacingPhase === 'final-stretch' ? 'text-amber-400'
+                            : 'text-slate-400'
+                        }`}>
+                            {formatClock(elapsedMs)} / {formatClock(durationMinutes * 60_000)}
+                            {pacingPhase === 'wrap-up' && ' · wrapping up'}
+                        </span>
+                    </div>
+                </div>
+                <div className="text-right text-xs text-slate-500 hidden md:block">
+                    Context: {config.challenge} <br/> Mode: {mode}
+                    {sessionId && (
+                        <button
+                            onClick={() => window.open(getObserverUrl(sessionId), `observer-${sessionId}`, 'width=900,height=800')}
+                            className="block ml-auto mt-1 text-indigo-400 hover:text-white"
+                        >
+                            Open observer view
+                        </button>
+                    )}
                 </div>
             </div>
-            <div className="text-right text-xs text-slate-500 hidden md:block">
-                Context: {config.challenge} <br/> Mode: {config.mode}
-            </div>
-        </div>
 
-        {/* Start Overlay */}
-        {status === 'idle' && (
-             <div className="absolute inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm rounded-2xl">
-                <button 
-                    onClick={handleStart}
-                    className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-6 px-12 rounded-full text-xl shadow-[0_0_50px_rgba(79,70,229,0.5)] transition-all transform hover:scale-105"
-                >
-                    Start Interview
-                </button>
-             </div>
-        )}
-
-        {/* Voice Visualizer Area */}
-        {config.mode === InterviewMode.VOICE && (
-            <div className="flex-1 flex flex-col items-center justify-center relative mb-6 min-h-[250px] bg-slate-950 rounded-2xl border border-slate-800 shadow-inner overflow-hidden">
-                <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-indigo-900/20 via-slate-950 to-slate-950"></div>
+            {/* Voice Visualizer Area */}
+            {mode === InterviewMode.VOICE && (
+                <div className="flex-1 flex flex-col items-center justify-center relative mb-6 min-h-[250px] bg-slate-950 rounded-2xl border border-slate-800 shadow-inner overflow-hidden">
+                    <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-indigo-900/20 via-slate-950 to-slate-950"></div>
                 
-                {/* Center Orb */}
-                <div className={`relative z-10 w-32 h-32 rounded-full flex items-center justify-center transition-all duration-500 ${status === 'connected' ? 'shadow-[0_0_50px_rgba(79,70,229,0.3)]' : ''}`}>
-                    <div className="w-24 h-24 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-full flex items-center justify-center">
-                    <svg xmlns="http://www.w3.org/2000/svg" width="40" height="40" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2c-1.7 0-3 1.2-3 2.6v6.8c0 1.4 1.3 2.6 3 2.6s3-1.2 3-2.6V4.6C15 3.2 13.7 2 12 2z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" y1="19" x2="12" y2="22"/><line x1="8" y1="22" x2="16" y2="22"/></svg>
+                    {/* Center Orb */}
+                    <div className={`relative z-10 w-32 h-32 rounded-full flex items-center justify-center transition-all duration-500 ${status === 'connected' ? 'shadow-[0_0_50px_rgba(79,70,229,0.3)]' : ''}`}>
+                        <div className="w-24 h-24 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-full flex items-center justify-center">
+                        <svg xmlns="http://www.w3.org/2000/svg" width="40" height="40" viewBox="0 0 24 24" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2c-1.7 0-3 1.2-3 2.6v6.8c0 1.4 1.3 2.6 3 2.6s3-1.2 3-2.6V4.6C15 3.2 13.7 2 12 2z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" y1="19" x2="12" y2="22"/><line x1="8" y1="22" x2="16" y2="22"/></svg>
+                        </div>
+                        {/* Rings */}
+                        <div className={`absolute inset-0 border-2 border-indigo-500/30 rounded-full ${status === 'connected' ? 'animate-ping' : ''}`}></div>
                     </div>
-                    {/* Rings */}
-                    <div className={`absolute inset-0 border-2 border-indigo-500/30 rounded-full ${status === 'connected' ? 'animate-ping' : ''}`}></div>
-                </div>
-
-                <div className="absolute bottom-4 text-slate-500 text-sm font-medium animate-pulse">
-                    {status === 'connected' ? "Listening... Say 'Hello' to begin." : ""}
-                </div>
 
-                <canvas ref={canvasRef} width="600" height="200" className="absolute bottom-0 w-full h-32 opacity-50 pointer-events-none" />
-            </div>
-        )}
-
-        {/* Transcript Log (Scrollable) */}
-        <div className={`flex-1 overflow-y-auto bg-slate-900/50 rounded-xl p-4 mb-6 border border-slate-800 space-y-3 scroll-smooth ${config.mode === InterviewMode.TEXT ? 'min-h-[400px]' : 'max-h-60'}`}>
-            {logs.length === 0 && status === 'connected' && <div className="text-slate-500 text-center italic mt-10">Starting conversation...</div>}
-            {logs.map((log, i) => (
-                <div key={i} className={`flex ${log.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                    <div className={`max-w-[80%] rounded-lg p-3 text-sm ${
-                        log.role === 'user' 
-                        ? 'bg-indigo-900/50 text-indigo-100 border border-indigo-800 shadow-lg shadow-indigo-900/20' 
-                        : log.role === 'system'
-                        ? 'bg-slate-800 text-slate-400 text-xs text-center w-full italic'
-                        : 'bg-slate-800 text-slate-200 border border-slate-700 shadow-lg shadow-black/20'
+                    {/* Tells the participant whether they are being heard right now */}
+                    <div className={`absolute bottom-8 text-sm font-medium ${
+                        status !== 'connected' ? 'text-slate-500 animate-pulse'
+                        : isMuted ? 'text-red-400'
+                        : isHeard ? 'text-emerald-400'
+                        : isPushToTalk ? 'text-amber-300'
+                        : 'text-slate-500 animate-pulse'
                     }`}>
-                        {log.text}
+                        {status === 'connected'
+                            ? isMuted ? "Muted. The interviewer can't hear you."
+                            : isHeard ? "Hearing you..."
+                            : isPushToTalk ? "Hold Space or the talk button to speak."
+                            : "Listening... Say 'Hello' to begin."
+                            : status === 'reconnecting' ? "Reconnecting... Hold on." : ""}
                     </div>
+                    {status === 'connected' && (
+                        <MicLevelMeter getLevel={() => isMuted ? 0 : captureRef.current?.level ?? 0} speaking={isHeard} className="absolute bottom-4 w-40 z-10" />
+                    )}
+
+                    <canvas ref={canvasRef} width="600" height="200" className="absolute bottom-0 w-full h-32 opacity-50 pointer-events-none" />
                 </div>
-            ))}
-            <div ref={scrollRef}></div>
-        </div>
+            )}
+
+            {/* Transcript Log (Scrollable) */}
+            <div className={`flex-1 overflow-y-auto bg-slate-900/50 rounded-xl p-4 mb-6 border border-slate-800 space-y-3 scroll-smooth ${mode === InterviewMode.TEXT ? 'min-h-[400px]' : 'max-h-60'}`}>
+                {logs.length === 0 && status === 'connected' && <div className="text-slate-500 text-center italic mt-10">Starting conversation...</div>}
+                {logs.map((log, i) => (
+                    <div key={i} className={`flex ${log.speaker === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-[80%] rounded-lg p-3 text-sm ${
+                            log.speaker === 'user' 
+                            ? 'bg-indigo-900/50 text-indigo-100 border border-indigo-800 shadow-lg shadow-indigo-900/20' 
+                            : log.speaker === 'system'
+                            ? 'bg-slate-800 text-slate-400 text-xs text-center w-full italic'
+                            : 'bg-slate-800 text-slate-200 border border-slate-700 shadow-lg shadow-black/20'
+                        }`}>
+                            {log.text}
+                            {log.interrupted && <span className="ml-2 text-[10px] uppercase tracking-wider text-amber-400/80">(interrupted)</span>}
+                            {log.speaker !== 'system' && (
+                                <div className="text-[10px] opacity-50 mt-1">{formatOffset(log.startTime, logs[0].startTime)}</div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+                <div ref={scrollRef}></div>
+            </div>
+
+            {/* Controls */}
+            <div className="flex flex-col gap-4">
+                 {/* Text Input Area */}
+                 {mode === InterviewMode.TEXT && status === 'connected' && (
+                    <form onSubmit={sendTextMessage} className="flex gap-2">
+                        <input 
+                            type="text" 
+                            value={inputText}
+                            onChange={(e) => setInputText(e.target.value)}
+                            placeholder="Type your answer..."
+                            className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                        />
+                        <button type="submit" className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 rounded-lg font-bold transition-colors">
+                            Send
+                        </button>
+                    </form>
+                 )}
+
+                {status === 'disconnected' && (
+                    <div className="flex items-center justify-between gap-4 bg-red-950/40 border border-red-900/50 rounded-lg p-3">
+                        <span className="text-sm text-red-300">The live connection was lost. The transcript so far is saved.</span>
+                        <button
+                            onClick={() => liveServiceRef.current?.resume()}
+                            className="bg-slate-800 hover:bg-slate-700 text-white text-sm font-bold py-2 px-4 rounded-lg transition-colors shrink-0"
+                        >
+                            Resume Interview
+                        </button>
+                    </div>
+                )}
 
-        {/* Controls */}
-        <div className="flex flex-col gap-4">
-             {/* Text Input Area */}
-             {config.mode === InterviewMode.TEXT && status === 'connected' && (
-                <form onSubmit={sendTextMessage} className="flex gap-2">
-                    <input 
-                        type="text" 
-                        value={inputText}
-                        onChange={(e) => setInputText(e.target.value)}
-                        placeholder="Type your answer..."
-                        className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-indigo-500 outline-none"
-                    />
-                    <button type="submit" className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 rounded-lg font-bold transition-colors">
-                        Send
+                <div className="flex justify-center gap-6 mt-2">
+                    {mode === InterviewMode.VOICE && (
+                        <button 
+                            onClick={() => setIsMuted(!isMuted)}
+                            title={isMuted ? 'Unmute' : 'Mute'}
+                            className={`p-4 rounded-full transition-all ${isMuted ? 'bg-red-500/20 text-red-400 ring-1 ring-red-500 shadow-lg shadow-red-900/20' : 'bg-slate-800 text-white hover:bg-slate-700 shadow-lg shadow-black/30'}`}
+                        >
+                            {isMuted ? (
+                                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="1" y1="1" x2="23" y2="23"/><path d="M9 9v3a3 3 0 0 0 5.12 2.12M15 9.34V4a3 3 0 0 0-5.94-.6"/><path d="M17 16.95A7 7 0 0 1 5 12v-2m14 0v2a7 7 0 0 1-.11 1.23"/><line x1="12" y1="19" x2="12" y2="23"/><line x1="8" y1="23" x2="16" y2="23"/></svg>
+                            ) : (
+                                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" y1="19" x2="12" y2="23"/><line x1="8" y1="23" x2="16" y2="23"/></svg>
+                            )}
+                        </button>
+                    )}
+
+                    {mode === InterviewMode.VOICE && isPushToTalk && (
+                        <button
+                            onPointerDown={(e) => {
+                                e.currentTarget.setPointerCapture(e.pointerId);
+                                setIsTalkHeld(true);
+                            }}
+                            onPointerUp={() => setIsTalkHeld(false)}
+                            onPointerCancel={() => setIsTalkHeld(false)}
+                            disabled={isMuted || status !== 'connected'}
+                            className={`select-none touch-none font-bold py-3 px-6 rounded-full transition-all disabled:opacity-40 ${isTalkHeld ? 'bg-emerald-600 text-white ring-2 ring-emerald-300 shadow-lg shadow-emerald-900/40' : 'bg-slate-800 text-white hover:bg-slate-700 shadow-lg shadow-black/30'}`}
+                        >
+                            {isTalkHeld ? 'Talking...' : 'Hold to Talk'}
+                        </button>
+                    )}
+                
+                    <button
+                        onClick={() => void handleSwitchMode()}
+                        disabled={isSwitchingMode || (status !== 'connected' && status !== 'disconnected')}
+                        title="Continue the same conversation in the other mode"
+                        className="bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-200 font-bold py-3 px-6 rounded-full border border-slate-700 transition-colors"
+                    >
+                        {mode === InterviewMode.VOICE ? 'Switch to Text' : 'Switch to Voice'}
+                    </button>
+
+                    <button
+                        onClick={handleWithdraw}
+                        className="bg-slate-900 hover:bg-red-900/40 text-red-400 font-bold py-3 px-6 rounded-full border border-red-900/50 transition-colors"
+                    >
+                        Withdraw & Delete
                     </button>
-                </form>
-             )}
 
-            <div className="flex justify-center gap-6 mt-2">
-                {config.mode === InterviewMode.VOICE && (
                     <button 
-                        onClick={() => setIsMuted(!isMuted)}
-                        className={`p-4 rounded-full transition-all ${isMuted ? 'bg-red-500/20 text-red-400 ring-1 ring-red-500 shadow-lg shadow-red-900/20' : 'bg-slate-800 text-white hover:bg-slate-700 shadow-lg shadow-black/30'}`}
+                        onClick={handleFinish}
+                        disabled={isFinishing}
+                        className="bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:hover:bg-red-600 text-white font-bold py-3 px-8 rounded-full shadow-lg shadow-red-900/30 transition-all flex items-center gap-2"
                     >
-                        {isMuted ? (
-                            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="1" y1="1" x2="23" y2="23"/><path d="M9 9v3a3 3 0 0 0 5.12 2.12M15 9.34V4a3 3 0 0 0-5.94-.6"/><path d="M17 16.95A7 7 0 0 1 5 12v-2m14 0v2a7 7 0 0 1-.11 1.23"/><line x1="12" y1="19" x2="12" y2="23"/><line x1="8" y1="23" x2="16" y2="23"/></svg>
-                        ) : (
-                            <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" y1="19" x2="12" y2="23"/><line x1="8" y1="23" x2="16" y2="23"/></svg>
-                        )}
+                        End Interview & Generate Report
                     </button>
+                </div>
+
+                {mode === InterviewMode.VOICE && microphones.length > 1 && (
+                    <label className="flex items-center justify-center gap-2 text-xs text-slate-500">
+                        Microphone
+                        <select
+                            value={micSettings?.deviceId ?? ''}
+                            onChange={(e) => void handleSwitchMicrophone(e.target.value)}
+                            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-indigo-500 max-w-xs"
+                        >
+                            <option value="">Browser default</option>
+                            {microphones.filter(device => device.deviceId && device.deviceId !== 'default').map((device, i) => (
+                                <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${i + 1}`}</option>
+                            ))}
+                        </select>
+                    </label>
                 )}
-                
-                <button 
-                    onClick={handleFinish}
-                    className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-full shadow-lg shadow-red-900/30 transition-all flex items-center gap-2"
-                >
-                    End Interview & Generate Report
-                </button>
             </div>
         </div>
+
+        {/* Side Panels */}
+        <aside className="w-full lg:w-80 shrink-0 p-4 space-y-4">
+            <LiveCanvasPanel canvas={liveCanvas} isUpdating={isCanvasUpdating} />
+            {config.guide && (
+                <GuideCoveragePanel
+                    guide={config.guide}
+                    transcript={logs}
+                    manuallyCovered={manuallyCovered}
+                    onToggleQuestion={toggleQuestionCovered}
+                    isActive={status === 'connected'}
+                />
+            )}
+        </aside>
     </div>
   );
 };
@@ -0,0 +1,48 @@
+import React from 'react';
+import { LiveCanvas } from '../types';
+import { CANVAS_QUADRANTS, THIN_QUADRANT_THRESHOLD } from '../utils/canvasUtils';
+
+interface LiveCanvasPanelProps {
+  canvas: LiveCanvas;
+  isUpdating: boolean;
+}
+
+const LiveCanvasPanel: React.FC<LiveCanvasPanelProps> = ({ canvas, isUpdating }) => (
+  <div className="bg-slate-900/80 border border-slate-700 rounded-xl p-4">
+    <div className="flex justify-between items-baseline mb-3">
+      <h3 className="font-bold text-slate-100 uppercase tracking-wide text-sm">Live Canvas</h3>
+      {isUpdating && <span className="text-[10px] text-indigo-300 animate-pulse uppercase tracking-wider">Updating…</span>}
+    </div>
+    <div className="space-y-3">
+      {CANVAS_QUADRANTS.map(({ key, label }) => {
+        const items = canvas[key];
+        const isThin = items.length < THIN_QUADRANT_THRESHOLD;
+        return (
+          <div key={key}>
+            <div className="flex justify-between items-center mb-1">
+              <span className="text-xs font-semibold text-slate-300">{label}</span>
+              <span className={`px-1.5 py-0.5 rounded text-[10px] border ${
+                isThin ? 'bg-amber-900/30 text-amber-300 border-amber-800' : 'bg-emerald-900/30 text-emerald-300 border-emerald-800'
+              }`}>
+                {isThin ? `Thin · ${items.length}` : items.length}
+              </span>
+            </div>
+            <div className="h-1 bg-slate-800 rounded-full overflow-hidden mb-1">
+              <div
+                className={`h-full rounded-full transition-all duration-500 ${isThin ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                style={{ width: `${Math.min(100, (items.length / (THIN_QUADRANT_THRESHOLD * 2)) * 100)}%` }}
+              ></div>
+            </div>
+            <ul className="space-y-0.5">
+              {items.slice(-3).map((item, idx) => (
+                <li key={idx} className="text-[11px] text-slate-400 truncate" title={item}>• {item}</li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default LiveCanvasPanel;
@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { listMicrophones, MicrophoneCapture, MicrophoneMode, openMicrophone } from '../services/audioCaptureService';
+import MicLevelMeter from './MicLevelMeter';
+
+export interface MicrophoneSettings {
+  deviceId: string; // Empty for the browser's default
+  mode: MicrophoneMode;
+}
+
+interface MicCheckProps {
+  onStart: (settings: MicrophoneSettings) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pre-interview microphone test: pick a device, see that speech registers and choose
+ * between an open microphone and push-to-talk. Nothing captured here is sent or recorded.
+ */
+const MicCheck: React.FC<MicCheckProps> = ({ onStart, onCancel }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState('');
+  const [mode, setMode] = useState<MicrophoneMode>('open');
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [heardOnce, setHeardOnce] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const captureRef = useRef<MicrophoneCapture | null>(null);
+
+  // Restarts the test capture whenever another device is picked
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let capture: MicrophoneCapture | null = null;
+
+    const start = async () => {
+      try {
+        setError(null);
+        stream = await openMicrophone(deviceId);
+        if (cancelled) return;
+        setDevices(await listMicrophones());
+        capture = await MicrophoneCapture.start(stream, {
+          onAudio: () => {},
+          onSpeechEnd: () => {},
+          onHeardChange: (heard) => {
+            setIsSpeaking(heard);
+            if (heard) setHeardOnce(true);
+          },
+        });
+        if (cancelled) {
+          void capture.stop();
+          return;
+        }
+        captureRef.current = capture;
+      } catch (err: any) {
+        console.error("Microphone check failed", err);
+        if (!cancelled) {
+          setError(err.name === 'NotAllowedError'
+            ? "Microphone access was blocked. Allow it in the browser's address bar and try again."
+            : err.message || "Could not open the microphone.");
+        }
+      }
+    };
+    void start();
+
+    return () => {
+      cancelled = true;
+      captureRef.current = null;
+      setIsSpeaking(false);
+      void capture?.stop();
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [deviceId]);
+
+  return (
+    <div className="max-w-2xl mx-auto bg-slate-900 border border-slate-800 rounded-xl shadow-2xl p-8">
+      <h1 className="text-2xl font-bold text-white mb-2">Check your microphone</h1>
+      <p className="text-slate-400 text-sm mb-6">Say a few words. The bar should move and turn green while you talk.</p>
+
+      <div className="space-y-5 mb-6">
+        <div>
+          <label className="block text-sm font-semibold text-indigo-300 mb-1">Microphone</label>
+          <select
+            value={deviceId}
+            onChange={(e) => {
+              setHeardOnce(false);
+              setDeviceId(e.target.value);
+            }}
+            className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-slate-200 focus:outline-none focus:border-indigo-500"
+          >
+            <option value="">Browser default</option>
+            {devices.filter(device => device.deviceId && device.deviceId !== 'default').map((device, i) => (
+              <option key={device.deviceId} value={device.deviceId}>{device.label || `Microphone ${i + 1}`}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <MicLevelMeter getLevel={() => captureRef.current?.level ?? 0} speaking={isSpeaking} className="w-full h-3" />
+          <p className={`text-xs mt-2 ${error ? 'text-red-400' : isSpeaking || heardOnce ? 'text-emerald-400' : 'text-slate-500'}`}>
+            {error ?? (isSpeaking ? 'We can hear you.' : heardOnce ? 'Sounds good.' : 'Waiting for your voice...')}
+          </p>
+        </div>
+
+        <div>
+          <span className="block text-sm font-semibold text-indigo-300 mb-2">How do you want to talk?</span>
+          <div className="grid md:grid-cols-2 gap-3">
+            {([
+              ['open', 'Open microphone', 'Just talk. Best in a quiet room.'],
+              ['push-to-talk', 'Push to talk', 'Hold Space or the talk button while you speak. Best in noisy places.'],
+            ] as [MicrophoneMode, string, string][]).map(([value, title, description]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`text-left rounded-lg border p-3 transition-colors ${mode === value ? 'border-indigo-500 bg-indigo-900/20' : 'border-slate-700 hover:border-slate-500'}`}
+              >
+                <div className="text-sm font-semibold text-slate-100">{title}</div>
+                <div className="text-xs text-slate-400 mt-1">{description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <button
+          onClick={() => onStart({ deviceId, mode })}
+          disabled={!!error}
+          className="flex-1 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+        >
+          Start Interview
+        </button>
+        <button
+          onClick={onCancel}
+          className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold py-3 px-6 rounded-lg transition-colors border border-slate-700"
+        >
+          No Thanks
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MicCheck;
@@ -0,0 +1,36 @@
+import React, { useEffect, useRef } from 'react';
+
+interface MicLevelMeterProps {
+  getLevel: () => number; // 0-1, polled every animation frame
+  speaking: boolean;
+  className?: string;
+}
+
+// Reads the level itself on every frame, so a moving meter does not re-render its parent
+const MicLevelMeter: React.FC<MicLevelMeterProps> = ({ getLevel, speaking, className = '' }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const getLevelRef = useRef(getLevel);
+  getLevelRef.current = getLevel;
+
+  useEffect(() => {
+    let frameId: number;
+    const render = () => {
+      if (barRef.current) barRef.current.style.width = `${Math.round(getLevelRef.current() * 100)}%`;
+      frameId = requestAnimationFrame(render);
+    };
+    render();
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  return (
+    <div className={`h-2 rounded-full bg-slate-800 overflow-hidden ${className}`}>
+      <div
+        ref={barRef}
+        className={`h-full rounded-full transition-[width] duration-75 ${speaking ? 'bg-emerald-400' : 'bg-slate-500'}`}
+        style={{ width: '0%' }}
+      />
+    </div>
+  );
+};
+
+export default MicLevelMeter;
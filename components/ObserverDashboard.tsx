@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ObservedSession, ObserverClient } from '../services/observerService';
+import { Whisper } from '../types';
+import { formatOffset, getConversationTurns, getSpeakerLabel } from '../utils/transcriptUtils';
+
+interface ObserverDashboardProps {
+  sessionId: string;
+}
+
+const QUICK_WHISPERS = [
+  'Probe deeper on that last point.',
+  'Ask for a concrete recent example.',
+  'Move on to the next topic.',
+  'Wrap up in 5 minutes.',
+];
+
+/**
+ * Researcher-only view of a running interview. Whispers go to the interviewer as
+ * private guidance; the participant never sees them.
+ */
+const ObserverDashboard: React.FC<ObserverDashboardProps> = ({ sessionId }) => {
+  const [session, setSession] = useState<ObservedSession | null>(null);
+  const [draft, setDraft] = useState('');
+  // Whispers sent from this window, shown until the session confirms them
+  const [sent, setSent] = useState<Whisper[]>([]);
+  const clientRef = useRef<ObserverClient | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const client = new ObserverClient(sessionId, setSession);
+    clientRef.current = client;
+    return () => {
+      client.close();
+      clientRef.current = null;
+    };
+  }, [sessionId]);
+
+  const turns = session ? getConversationTurns(session.transcript) : [];
+
+  useEffect(() => {
+    scrollRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [turns.length]);
+
+  const sendWhisper = (text: string) => {
+    if (!text.trim() || !clientRef.current) return;
+    const whisper = clientRef.current.whisper(text.trim());
+    setSent(prev => [...prev, whisper]);
+    setDraft('');
+  };
+
+  const confirmed = new Map((session?.whispers || []).map(w => [w.id, w]));
+  const whispers = [
+    ...(session?.whispers || []),
+    ...sent.filter(w => !confirmed.has(w.id)),
+  ].sort((a, b) => a.sentAt - b.sentAt);
+  const canWhisper = !!session && session.status !== 'finished';
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 flex flex-col lg:flex-row gap-4">
+      <div className="flex-1 bg-slate-900 border border-slate-800 rounded-xl p-4">
+        <div className="flex justify-between items-baseline mb-4">
+          <h2 className="text-xl font-bold text-white">Observer View</h2>
+          <span className="text-xs text-slate-400 uppercase tracking-wider">
+            {session ? session.status : 'Waiting for the interview window...'}
+          </span>
+        </div>
+        {session && <p className="text-xs text-slate-500 mb-4">Study: {session.challenge}</p>}
+
+        <div className="space-y-2 max-h-[36rem] overflow-y-auto pr-2">
+          {turns.length === 0 && (
+            <p className="text-sm text-slate-500 italic">
+              {session ? 'Nothing has been said yet.' : 'Keep the interview open in another window of this browser.'}
+            </p>
+          )}
+          {turns.map((turn, i) => (
+            <div key={i} className="grid grid-cols-[3.5rem_6rem_1fr] gap-2 text-xs">
+              <span className="font-mono text-slate-600">{formatOffset(turn.startTime, turns[0].startTime)}</span>
+              <span className={`font-bold ${turn.speaker === 'user' ? 'text-indigo-300' : 'text-slate-500'}`}>{getSpeakerLabel(turn.speaker)}</span>
+              <span className="text-slate-300 leading-relaxed">{turn.text}</span>
+            </div>
+          ))}
+          <div ref={scrollRef}></div>
+        </div>
+      </div>
+
+      <aside className="w-full lg:w-80 shrink-0 bg-slate-900 border border-slate-800 rounded-xl p-4">
+        <h3 className="text-sm font-semibold text-indigo-300 mb-1">Whisper to the interviewer</h3>
+        <p className="text-xs text-slate-500 mb-3">Private guidance. The participant does not see it.</p>
+
+        <div className="flex flex-wrap gap-2 mb-3">
+          {QUICK_WHISPERS.map(text => (
+            <button
+              key={text}
+              onClick={() => sendWhisper(text)}
+              disabled={!canWhisper}
+              className="px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-xs rounded text-slate-300 border border-slate-700 transition-colors"
+            >
+              {text}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={(e) => { e.preventDefault(); sendWhisper(draft); }} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            disabled={!canWhisper}
+            placeholder="e.g. Probe more on pricing"
+            className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-40"
+          />
+          <button type="submit" disabled={!canWhisper} className="bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 text-white px-3 rounded-lg text-sm font-bold transition-colors">
+            Send
+          </button>
+        </form>
+
+        <ul className="space-y-2">
+          {whispers.map(whisper => (
+            <li key={whisper.id} className="text-xs bg-slate-950 border border-slate-800 rounded p-2">
+              <span className="text-slate-300">{whisper.text}</span>
+              <span className={`block mt-1 text-[10px] uppercase tracking-wider ${whisper.deliveredAt ? 'text-emerald-400' : 'text-amber-400'}`}>
+                {whisper.deliveredAt ? 'Delivered' : confirmed.has(whisper.id) ? 'Queued until connected' : 'Sending...'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </div>
+  );
+};
+
+export default ObserverDashboard;
@@ -0,0 +1,339 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Campaign, InterviewMode, InterviewReport, InterviewStyle, Persona, PersonaGuardedness, PersonaVerbosity, TranscriptTurn } from '../types';
+import { InterviewRecord, StudyStore } from '../services/studyStore';
+import { createPersona, PRESET_PERSONAS, runSimulatedInterview } from '../services/personaService';
+import { generateReport } from '../services/geminiService';
+import { generateId } from '../services/campaignService';
+import { CANVAS_QUADRANTS } from '../utils/canvasUtils';
+import { computeGuideCoverage } from '../utils/guideUtils';
+import { getSpeakerLabel } from '../utils/transcriptUtils';
+
+interface PersonaLabProps {
+  study: Campaign;
+  store: StudyStore;
+  onViewReport: (interview: InterviewRecord) => void;
+  onSynthesize: (reports: InterviewReport[]) => void;
+  onBack: () => void;
+}
+
+interface ActiveRun {
+  persona: Persona;
+  style: InterviewStyle;
+  phase: 'interviewing' | 'analyzing';
+  transcript: TranscriptTurn[];
+  position: number; // 1-based index in the queue
+  total: number;
+}
+
+const DEFAULT_EXCHANGES = 8;
+
+const PersonaEditor: React.FC<{ onSave: (persona: Persona) => void; onCancel: () => void }> = ({ onSave, onCancel }) => {
+  const [persona, setPersona] = useState<Persona>(createPersona);
+  const update = (patch: Partial<Persona>) => setPersona(prev => ({ ...prev, ...patch }));
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+  return (
+    <div className="bg-slate-950 border border-slate-800 rounded-lg p-4 space-y-2">
+      <input className={inputClass} placeholder="Name, e.g. Lee, the night-shift nurse" value={persona.name} onChange={(e) => update({ name: e.target.value })} />
+      <textarea className={`${inputClass} h-16`} placeholder="Background: role, situation, history" value={persona.background} onChange={(e) => update({ background: e.target.value })} />
+      <textarea className={`${inputClass} h-16`} placeholder="Attitudes toward the topic" value={persona.attitudes} onChange={(e) => update({ attitudes: e.target.value })} />
+      <div className="flex gap-2">
+        <select className={inputClass} value={persona.verbosity} onChange={(e) => update({ verbosity: e.target.value as PersonaVerbosity })}>
+          {Object.values(PersonaVerbosity).map(v => <option key={v} value={v}>{v}</option>)}
+        </select>
+        <select className={inputClass} value={persona.guardedness} onChange={(e) => update({ guardedness: e.target.value as PersonaGuardedness })}>
+          {Object.values(PersonaGuardedness).map(g => <option key={g} value={g}>{g}</option>)}
+        </select>
+      </div>
+      <div className="flex justify-end gap-3 pt-1">
+        <button onClick={onCancel} className="text-xs text-slate-500 hover:text-white">Cancel</button>
+        <button
+          onClick={() => onSave(persona)}
+          disabled={!persona.name.trim() || !persona.background.trim()}
+          className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-xs font-bold rounded text-white transition-colors"
+        >
+          Add Persona
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const PersonaLab: React.FC<PersonaLabProps> = ({ study, store, onViewReport, onSynthesize, onBack }) => {
+  const [personas, setPersonas] = useState<Persona[]>(PRESET_PERSONAS);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set([PRESET_PERSONAS[0].id]));
+  const [styles, setStyles] = useState<Set<InterviewStyle>>(new Set([study.config.style]));
+  const [maxExchanges, setMaxExchanges] = useState(DEFAULT_EXCHANGES);
+  const [isEditing, setIsEditing] = useState(false);
+  const [records, setRecords] = useState<InterviewRecord[]>([]);
+  const [active, setActive] = useState<ActiveRun | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const unmountedRef = useRef(false);
+
+  // Earlier rehearsals of this study, so results survive a trip to a report and back
+  useEffect(() => {
+    store.listInterviews(study.id)
+      .then(all => setRecords(all.filter(i => i.simulation)))
+      .catch(err => console.error("Failed to load rehearsals", err));
+  }, [store, study.id]);
+
+  // Stop after the current exchange if the researcher leaves the screen; the run still saves what it has
+  useEffect(() => () => {
+    unmountedRef.current = true;
+    abortRef.current?.abort();
+  }, []);
+
+  const toggle = <T,>(set: Set<T>, value: T) => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value); else next.add(value);
+    return next;
+  };
+
+  const upsertRecord = async (record: InterviewRecord) => {
+    await store.saveInterview(record);
+    if (unmountedRef.current) return;
+    setRecords(prev => [record, ...prev.filter(r => r.id !== record.id)]);
+  };
+
+  const handleRun = async () => {
+    const jobs = personas
+      .filter(p => selectedIds.has(p.id))
+      .flatMap(persona => Array.from(styles).map(style => ({ persona, style })));
+    if (jobs.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+
+    try {
+      for (const [index, { persona, style }] of jobs.entries()) {
+        if (controller.signal.aborted) break;
+        const config = { ...study.config, style, mode: InterviewMode.TEXT };
+        const run: ActiveRun = { persona, style, phase: 'interviewing', transcript: [], position: index + 1, total: jobs.length };
+        setActive(run);
+
+        const transcript = await runSimulatedInterview(config, persona, {
+          maxExchanges,
+          signal: controller.signal,
+          onTranscript: (turns) => { if (!unmountedRef.current) setActive(prev => prev && { ...prev, transcript: turns }); },
+        });
+        const now = Date.now();
+        const record: InterviewRecord = {
+          id: generateId(8),
+          studyId: study.id,
+          participantId: null,
+          transcript,
+          report: null,
+          simulation: { persona, style },
+          createdAt: now,
+          updatedAt: now,
+        };
+        await upsertRecord(record);
+        // A stopped interview is kept without a report; analysing a cut-off transcript would mislead
+        if (controller.signal.aborted) break;
+
+        setActive(prev => prev && { ...prev, phase: 'analyzing' });
+        const report = await generateReport(transcript, config);
+        await upsertRecord({ ...record, report, updatedAt: Date.now() });
+      }
+    } catch (err: any) {
+      console.error("Rehearsal failed", err);
+      if (!unmountedRef.current) setError(err.message || "The rehearsal stopped because of an unexpected error.");
+    } finally {
+      abortRef.current = null;
+      if (!unmountedRef.current) setActive(null);
+    }
+  };
+
+  const isRunning = active !== null;
+  const jobCount = selectedIds.size * styles.size;
+  const reports = records.flatMap(r => r.report ? [r.report] : []);
+
+  // Group each persona's runs together so styles sit side by side
+  const sortedRecords = [...records].sort((a, b) =>
+    a.simulation!.persona.name.localeCompare(b.simulation!.persona.name) || a.simulation!.style.localeCompare(b.simulation!.style)
+  );
+
+  const mustAskSummary = (record: InterviewRecord) => {
+    if (!study.config.guide) return '–';
+    const coverage = computeGuideCoverage(study.config.guide, record.transcript, new Set(), record.updatedAt);
+    const sections = Object.values(coverage.sections);
+    return `${sections.reduce((sum, s) => sum + s.mustAskCovered, 0)}/${sections.reduce((sum, s) => sum + s.mustAskTotal, 0)}`;
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="flex justify-between items-end mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Rehearsal Lab</h1>
+          <p className="text-slate-400 mt-2">
+            Pilot "{study.config.challenge || 'Untitled study'}" with synthetic participants before inviting real ones.
+          </p>
+        </div>
+        <button onClick={onBack} className="text-sm text-slate-500 hover:text-white underline">Back</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+          <h3 className="font-bold text-white mb-3">Personas</h3>
+          <div className="space-y-2 mb-3">
+            {personas.map(persona => (
+              <label key={persona.id} className="flex gap-3 items-start bg-slate-800 p-3 rounded-lg border border-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={selectedIds.has(persona.id)}
+                  disabled={isRunning}
+                  onChange={() => setSelectedIds(prev => toggle(prev, persona.id))}
+                />
+                <div className="min-w-0">
+                  <div className="text-sm font-bold text-slate-200">{persona.name}</div>
+                  <div className="text-xs text-slate-400">{persona.background}</div>
+                  <div className="text-[10px] text-slate-500 uppercase tracking-wider mt-1">{persona.verbosity} · {persona.guardedness}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+          {isEditing ? (
+            <PersonaEditor
+              onSave={(persona) => {
+                setPersonas(prev => [...prev, persona]);
+                setSelectedIds(prev => new Set(prev).add(persona.id));
+                setIsEditing(false);
+              }}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : (
+            <button onClick={() => setIsEditing(true)} className="text-xs text-indigo-400 hover:text-white">+ Custom persona</button>
+          )}
+        </div>
+
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 flex flex-col">
+          <h3 className="font-bold text-white mb-3">Interview Styles</h3>
+          <div className="flex gap-2 mb-6">
+            {Object.values(InterviewStyle).map(style => (
+              <button
+                key={style}
+                disabled={isRunning}
+                onClick={() => setStyles(prev => toggle(prev, style))}
+                className={`flex-1 p-2 rounded-lg border text-xs font-bold transition-all ${
+                  styles.has(style) ? 'bg-indigo-900/40 border-indigo-500 text-white' : 'bg-slate-950 border-slate-800 text-slate-500'
+                }`}
+              >
+                {style}
+              </button>
+            ))}
+          </div>
+          <label className="text-sm text-slate-300 mb-6 flex items-center gap-3">
+            Participant answers per interview
+            <input
+              type="number"
+              min={2}
+              max={30}
+              disabled={isRunning}
+              className="w-20 bg-slate-950 border border-slate-700 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              value={maxExchanges}
+              onChange={(e) => setMaxExchanges(Math.min(30, Math.max(2, Number(e.target.value) || DEFAULT_EXCHANGES)))}
+            />
+          </label>
+          <div className="mt-auto">
+            {isRunning ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="w-full bg-slate-800 hover:bg-slate-700 text-white font-bold py-3 rounded-lg transition-colors"
+              >
+                Stop After Current Answer
+              </button>
+            ) : (
+              <button
+                onClick={handleRun}
+                disabled={jobCount === 0}
+                className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:opacity-40 text-white font-bold py-3 rounded-lg transition-all"
+              >
+                Run {jobCount} Simulated Interview{jobCount === 1 ? '' : 's'}
+              </button>
+            )}
+            {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+          </div>
+        </div>
+      </div>
+
+      {active && (
+        <div className="bg-slate-900 border border-indigo-900/50 rounded-xl p-6 mb-8">
+          <div className="flex justify-between items-baseline mb-3">
+            <h3 className="font-bold text-white">{active.persona.name} · {active.style}</h3>
+            <span className="text-xs text-indigo-300 animate-pulse uppercase tracking-wider">
+              {active.phase === 'interviewing' ? 'Interviewing' : 'Analyzing'} · {active.position}/{active.total}
+            </span>
+          </div>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {active.transcript.slice(-4).map((turn, idx) => (
+              <p key={idx} className="text-sm text-slate-300">
+                <span className="text-xs font-bold text-slate-500 uppercase mr-2">{getSpeakerLabel(turn.speaker)}</span>
+                {turn.text}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-bold text-white">Results</h3>
+          {reports.length >= 2 && !isRunning && (
+            <button
+              onClick={() => onSynthesize(reports)}
+              className="px-3 py-1 bg-purple-700 hover:bg-purple-600 text-xs font-bold rounded text-white transition-colors"
+            >
+              Synthesize {reports.length}
+            </button>
+          )}
+        </div>
+        {sortedRecords.length === 0 ? (
+          <p className="text-sm text-slate-600 italic">No rehearsals yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs text-left">
+              <thead className="text-slate-500 uppercase tracking-wider">
+                <tr>
+                  <th className="py-2 pr-3">Persona</th>
+                  <th className="py-2 pr-3">Style</th>
+                  <th className="py-2 pr-3">Answers</th>
+                  {CANVAS_QUADRANTS.map(({ key, label }) => <th key={key} className="py-2 pr-3">{label}</th>)}
+                  <th className="py-2 pr-3" title="Must-ask guide questions covered">Must-asks</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-300">
+                {sortedRecords.map(record => (
+                  <tr key={record.id} className="border-t border-slate-800">
+                    <td className="py-2 pr-3 font-semibold">{record.simulation!.persona.name}</td>
+                    <td className="py-2 pr-3">{record.simulation!.style}</td>
+                    <td className="py-2 pr-3">{record.transcript.filter(t => t.speaker === 'user').length}</td>
+                    {CANVAS_QUADRANTS.map(({ key }) => (
+                      <td key={key} className="py-2 pr-3">{record.report ? record.report.canvas[key].length : '–'}</td>
+                    ))}
+                    <td className="py-2 pr-3">{mustAskSummary(record)}</td>
+                    <td className="py-2 text-right">
+                      {record.report && (
+                        <button
+                          onClick={() => onViewReport(record)}
+                          className="px-3 py-1 bg-emerald-700 hover:bg-emerald-600 font-bold rounded text-white transition-colors"
+                        >
+                          Report
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaLab;
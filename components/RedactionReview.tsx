@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { RedactionSettings, TranscriptTurn } from '../types';
+import { createTranscriptRedactor, PiiMatch, redactTranscript } from '../utils/redaction';
+import { getConversationTurns, getSpeakerLabel } from '../utils/transcriptUtils';
+
+interface RedactionReviewProps {
+  settings: RedactionSettings;
+  originalTranscript: TranscriptTurn[]; // Unredacted, as kept in local storage
+}
+
+// Original text with each redacted span struck through and followed by its replacement
+const renderDiff = (text: string, matches: PiiMatch[]) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  matches.forEach((match, i) => {
+    parts.push(text.slice(cursor, match.start));
+    parts.push(
+      <span key={i} title={match.category}>
+        <del className="bg-red-950/60 text-red-300 px-0.5 rounded-sm">{match.value}</del>
+        <ins className="no-underline bg-emerald-950/60 text-emerald-300 px-0.5 rounded-sm ml-0.5">{match.replacement}</ins>
+      </span>
+    );
+    cursor = match.end;
+  });
+  parts.push(text.slice(cursor));
+  return parts;
+};
+
+/**
+ * Shows exactly what was removed before analysis, so the researcher can spot
+ * missed names or over-eager matches. Redaction is deterministic, so re-running
+ * it here reproduces what the model saw.
+ */
+const RedactionReview: React.FC<RedactionReviewProps> = ({ settings, originalTranscript }) => {
+  const { turns, changes } = useMemo(() => {
+    const turns = getConversationTurns(originalTranscript);
+    return { turns, changes: redactTranscript(turns, createTranscriptRedactor(turns, settings)).changes };
+  }, [settings, originalTranscript]);
+
+  const counts = changes
+    .flatMap(change => change.matches)
+    .reduce<Record<string, number>>((acc, match) => ({ ...acc, [match.category]: (acc[match.category] || 0) + 1 }), {});
+
+  return (
+    <details className="bg-slate-950/50 rounded-xl p-4 border border-slate-800 mb-8">
+      <summary className="cursor-pointer text-slate-500 font-semibold hover:text-slate-300">
+        Review Redactions
+        <span className="ml-2 text-xs font-normal text-slate-500">
+          {changes.length === 0
+            ? 'nothing was redacted'
+            : `${settings.mode} · ${Object.entries(counts).map(([category, n]) => `${n} ${category}`).join(', ')}`}
+        </span>
+      </summary>
+      <p className="mt-3 text-xs text-slate-500">
+        Only this browser has the original text. The analysis, the report and exports use the redacted version.
+      </p>
+      <div className="mt-4 space-y-2 max-h-[24rem] overflow-y-auto pr-2">
+        {changes.map(change => (
+          <div key={change.turnIndex} className="grid grid-cols-[3.5rem_6rem_1fr] gap-2 text-xs text-slate-400 p-2">
+            <span className="font-mono text-slate-600">#{change.turnIndex}</span>
+            <span className="font-bold text-slate-500">{getSpeakerLabel(turns[change.turnIndex].speaker)}</span>
+            <span className="leading-relaxed">{renderDiff(change.original, change.matches)}</span>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default RedactionReview;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+
+interface RegenerateControlProps {
+  label: string; // Section name, e.g. "Pains"
+  onRegenerate: (instruction: string) => Promise<void>;
+}
+
+/**
+ * "Regenerate" link that opens a one-line form for an optional steering instruction.
+ * Meant for a flex-wrap header: the link sits on the right, the form takes a full row.
+ */
+const RegenerateControl: React.FC<RegenerateControlProps> = ({ label, onRegenerate }) => {
+  const [open, setOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRunning(true);
+    setError(null);
+    try {
+      await onRegenerate(instruction);
+      setOpen(false);
+      setInstruction('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        title={`Regenerate ${label}`}
+        className="ml-auto text-[11px] text-slate-500 hover:text-indigo-300 normal-case tracking-normal font-normal"
+      >
+        Regenerate
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="basis-full mt-2 mb-1 space-y-1 normal-case tracking-normal font-normal">
+      <div className="flex gap-2">
+        <input
+          autoFocus
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          disabled={running}
+          placeholder={`Optional: how to redo ${label}, e.g. "focus on cost"`}
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+        />
+        <button type="submit" disabled={running} className="px-2 py-1 rounded text-xs bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white">
+          {running ? 'Working...' : 'Go'}
+        </button>
+        <button type="button" disabled={running} onClick={() => setOpen(false)} className="px-2 py-1 text-xs text-slate-500 hover:text-white">
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </form>
+  );
+};
+
+export default RegenerateControl;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ReportVersion } from '../types';
+
+interface ReportHistoryProps {
+  history: ReportVersion[]; // Oldest first
+  onRestore: (version: ReportVersion) => void;
+}
+
+const ReportHistory: React.FC<ReportHistoryProps> = ({ history, onRestore }) => {
+  const current = history[history.length - 1]?.version;
+
+  return (
+    <details className="bg-slate-900 border border-slate-700 rounded-2xl p-6 mb-8">
+      <summary className="cursor-pointer text-xl font-bold text-white">
+        Version History
+        <span className="ml-3 text-sm font-normal text-slate-500">{history.length} version{history.length === 1 ? '' : 's'}</span>
+      </summary>
+      <ol className="mt-4 space-y-2">
+        {[...history].reverse().map(entry => (
+          <li key={entry.version} className="flex items-center gap-3 text-sm">
+            <span className="font-mono text-slate-500 w-8">v{entry.version}</span>
+            <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase border ${
+              entry.origin === 'ai' ? 'bg-indigo-900/30 text-indigo-300 border-indigo-800' : 'bg-emerald-900/30 text-emerald-300 border-emerald-800'
+            }`}>
+              {entry.origin === 'ai' ? 'AI' : 'Researcher'}
+            </span>
+            <span className="flex-1 text-slate-300 truncate" title={entry.summary}>{entry.summary}</span>
+            <span className="text-xs text-slate-500 shrink-0">{new Date(entry.createdAt).toLocaleString()}</span>
+            {entry.version === current
+              ? <span className="text-xs text-slate-600 w-14 text-right">Current</span>
+              : <button onClick={() => onRestore(entry)} className="text-xs text-indigo-400 hover:text-white w-14 text-right">Restore</button>}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+};
+
+export default ReportHistory;
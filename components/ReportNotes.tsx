@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+
+interface ReportNotesProps {
+  notes: string;
+  tags: string[];
+  onChange: (patch: { notes?: string; tags?: string[] }) => void;
+}
+
+/**
+ * The researcher's own notes and tags. Notes are saved when the field loses focus.
+ */
+const ReportNotes: React.FC<ReportNotesProps> = ({ notes, tags, onChange }) => {
+  const [draft, setDraft] = useState(notes);
+  const [tagInput, setTagInput] = useState('');
+
+  // Restoring a version replaces the notes underneath the field
+  useEffect(() => setDraft(notes), [notes]);
+
+  const addTag = () => {
+    const tag = tagInput.trim();
+    setTagInput('');
+    if (tag && !tags.includes(tag)) onChange({ tags: [...tags, tag] });
+  };
+
+  return (
+    <div className="bg-slate-900 border border-emerald-700/40 rounded-2xl p-6 mb-8">
+      <h2 className="text-xl font-bold text-white mb-4">Researcher Notes</h2>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {tags.map(tag => (
+          <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-emerald-900/30 text-emerald-300 border border-emerald-800">
+            {tag}
+            <button onClick={() => onChange({ tags: tags.filter(t => t !== tag) })} className="text-emerald-500 hover:text-white" title="Remove tag">×</button>
+          </span>
+        ))}
+        <input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+          onBlur={addTag}
+          placeholder="Add tag"
+          className="bg-transparent border-b border-slate-700 px-1 py-0.5 text-xs text-slate-300 w-28 focus:outline-none focus:border-emerald-500"
+        />
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => draft !== notes && onChange({ notes: draft })}
+        rows={4}
+        placeholder="Your own observations: body language, follow-ups, how this compares to other participants..."
+        className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-emerald-500"
+      />
+    </div>
+  );
+};
+
+export default ReportNotes;
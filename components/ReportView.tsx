@@ -1,30 +1,392 @@
-import React from 'react';
-import { InterviewReport } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CanvasItem, CanvasQuadrant, ContentOrigin, InterviewRecording, InterviewReport, QuestionFlag, RedactionMode, RedactionSettings, RegenerableSection, ReportSection, ReportVersion, TranscriptTurn } from '../types';
+import { formatOffset, getSpeakerLabel } from '../utils/transcriptUtils';
+import { downloadFile, reportFileName, reportToCsv, reportToHtml, reportToJson, reportToMarkdown } from '../utils/exportUtils';
+import { createReportRedactor, isRedactionEnabled, redactReport } from '../utils/redaction';
+import { getLanguageName, isEnglish } from '../utils/languageUtils';
+import { getQuadrantLabel } from '../utils/canvasUtils';
+import { addCanvasItem, editCanvasItem, editReportField, getRegenerableSectionLabel, removeCanvasItem, restoreReportVersion } from '../utils/reportHistory';
+import { getLedCanvasItems, getQualityWarnings } from '../utils/qualityUtils';
+import RedactionReview from './RedactionReview';
+import EditableText from './EditableText';
+import RegenerateControl from './RegenerateControl';
+import ReportHistory from './ReportHistory';
+import ReportNotes from './ReportNotes';
+import InterviewQualityPanel from './InterviewQualityPanel';
 
 interface ReportViewProps {
   report: InterviewReport;
+  recording?: InterviewRecording;
+  redaction?: RedactionSettings;
+  originalTranscript?: TranscriptTurn[]; // Unredacted transcript, for reviewing what was redacted
   onRestart: () => void;
+  restartLabel?: string;
+  onRetrySections?: () => Promise<void>; // Regenerates the sections listed in report.failedSections
+  // Editing is available when these are set; every change becomes a new version
+  history?: ReportVersion[];
+  onChange?: (report: InterviewReport, origin: ContentOrigin, summary: string) => void;
+  onRegenerateSection?: (section: RegenerableSection, instruction: string) => Promise<void>;
 }
 
-const CanvasCard: React.FC<{ title: string; items: string[]; color: string; icon: React.ReactNode }> = ({ title, items, color, icon }) => (
+interface CanvasSelection {
+  quadrant: CanvasQuadrant;
+  index: number;
+}
+
+const CanvasCard: React.FC<{
+  title: string;
+  items: CanvasItem[];
+  color: string;
+  icon: React.ReactNode;
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  actions?: React.ReactNode; // Header controls, e.g. regenerate
+  onEditItem?: (index: number, text: string) => void;
+  onRemoveItem?: (index: number) => void;
+  onAddItem?: (text: string) => void;
+}> = ({ title, items, color, icon, selectedIndex, onSelect, actions, onEditItem, onRemoveItem, onAddItem }) => (
   <div className={`p-4 rounded-xl bg-slate-900 border ${color} h-full`}>
-    <div className="flex items-center gap-2 mb-3 border-b border-slate-800 pb-2">
+    <div className="flex flex-wrap items-center gap-2 mb-3 border-b border-slate-800 pb-2">
       {icon}
       <h3 className="font-bold text-slate-100 uppercase tracking-wide text-sm">{title}</h3>
+      {actions}
     </div>
     <ul className="space-y-2">
-      {items.map((item, idx) => (
-        <li key={idx} className="text-slate-300 text-sm flex gap-2 items-start">
-          <span className="text-slate-600 mt-1">•</span>
-          {item}
-        </li>
-      ))}
+      {items.map((item, idx) => {
+        const isResearcher = item.origin === 'researcher';
+        const content = (
+          <button
+            onClick={() => onSelect(idx)}
+            title={item.verified ? `${item.evidence.length} supporting quote(s). Click to show in transcript.` : 'No verifiable quote found in the transcript.'}
+            className={`w-full text-left text-sm flex gap-2 items-start rounded px-1 -mx-1 transition-colors ${
+              selectedIndex === idx ? 'bg-indigo-900/40 ring-1 ring-indigo-500' : 'hover:bg-slate-800/60'
+            } ${item.verified || isResearcher ? 'text-slate-300' : 'text-slate-500 italic'}`}
+          >
+            <span className="text-slate-600 mt-1">•</span>
+            <span className="flex-1">
+              {item.text}
+              {isResearcher && (
+                <span className="ml-2 not-italic px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wider bg-emerald-900/30 text-emerald-300 border border-emerald-800">
+                  {item.evidence.length > 0 ? 'Edited' : 'Researcher'}
+                </span>
+              )}
+              {!item.verified && !isResearcher && (
+                <span className="ml-2 not-italic px-1.5 py-0.5 rounded text-[10px] uppercase tracking-wider bg-amber-900/30 text-amber-300 border border-amber-800">
+                  Unverified
+                </span>
+              )}
+            </span>
+            {item.verified && <span className="text-[10px] text-slate-600 mt-1 whitespace-nowrap">{item.evidence.length} quote{item.evidence.length === 1 ? '' : 's'}</span>}
+          </button>
+        );
+        return (
+          <li key={idx}>
+            {onEditItem
+              ? <EditableText value={item.text} onSave={(text) => onEditItem(idx, text)} onDelete={onRemoveItem && (() => onRemoveItem(idx))}>{content}</EditableText>
+              : content}
+          </li>
+        );
+      })}
       {items.length === 0 && <li className="text-slate-600 italic text-xs">No specific data points gathered.</li>}
     </ul>
+    {onAddItem && <AddItemInput onAdd={onAddItem} />}
+  </div>
+);
+
+const AddItemInput: React.FC<{ onAdd: (text: string) => void }> = ({ onAdd }) => {
+  const [text, setText] = useState('');
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (text.trim()) onAdd(text.trim());
+        setText('');
+      }}
+      className="mt-3"
+    >
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="+ Add your own point"
+        className="w-full bg-transparent border-b border-slate-800 px-1 py-1 text-xs text-slate-300 placeholder:text-slate-600 focus:outline-none focus:border-emerald-500"
+      />
+    </form>
+  );
+};
+
+// Wraps the first occurrence of any quote in <mark>; falls back to the plain text
+const highlightQuotes = (text: string, quotes: string[]): React.ReactNode => {
+  const lower = text.toLowerCase();
+  for (const quote of quotes) {
+    const start = lower.indexOf(quote.toLowerCase());
+    if (start !== -1) {
+      const end = start + quote.length;
+      return (
+        <>
+          {text.slice(0, start)}
+          <mark className="bg-yellow-400/30 text-yellow-100 rounded px-0.5">{text.slice(start, end)}</mark>
+          {text.slice(end)}
+        </>
+      );
+    }
+  }
+  return text;
+};
+
+const TranscriptPanel: React.FC<{
+  turns: TranscriptTurn[];
+  highlighted: Map<number, string[]>;
+  activeIndex: number; // Turn under the audio playhead, -1 when not playing
+  onSeek?: (index: number) => void;
+}> = ({ turns, highlighted, activeIndex, onSeek }) => {
+  const firstHighlightRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLDivElement>(null);
+  const firstHighlighted = highlighted.size > 0 ? Math.min(...highlighted.keys()) : -1;
+  const origin = turns[0]?.startTime ?? 0;
+
+  useEffect(() => {
+    firstHighlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlighted]);
+
+  // Follow the playhead through the conversation
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [activeIndex]);
+
+  if (turns.length === 0) {
+    return <p className="mt-4 text-xs text-slate-600 italic">No transcript was captured.</p>;
+  }
+
+  return (
+    <div className="mt-4 space-y-2 max-h-[32rem] overflow-y-auto pr-2">
+      {turns.map((turn, i) => {
+        const quotes = highlighted.get(i);
+        const isActive = i === activeIndex;
+        return (
+          <div
+            key={i}
+            ref={i === firstHighlighted ? firstHighlightRef : isActive ? activeRef : undefined}
+            onClick={onSeek && (() => onSeek(i))}
+            title={onSeek ? 'Play from here' : undefined}
+            className={`grid grid-cols-[3.5rem_6rem_1fr] gap-2 text-xs rounded p-2 transition-colors ${
+              quotes ? 'bg-indigo-950/60 ring-1 ring-indigo-500/60 text-slate-200'
+              : isActive ? 'bg-emerald-950/40 ring-1 ring-emerald-600/50 text-slate-200'
+              : 'text-slate-400'
+            } ${onSeek ? 'cursor-pointer hover:bg-slate-800/60' : ''}`}
+          >
+            {/* Legacy transcripts have no timing information */}
+            <span className="font-mono text-slate-600">{origin > 0 ? formatOffset(turn.startTime, origin) : `#${i}`}</span>
+            <span className={`font-bold ${turn.speaker === 'user' ? 'text-indigo-300' : 'text-slate-500'}`}>
+              {getSpeakerLabel(turn.speaker)}
+              <span className="block font-normal text-[10px] text-slate-600 uppercase tracking-wider">{turn.mode}</span>
+            </span>
+            <span className="leading-relaxed">
+              {quotes ? highlightQuotes(turn.text, quotes) : turn.text}
+              {turn.partial && <span className="ml-2 text-[10px] uppercase tracking-wider text-amber-400/80">(cut off)</span>}
+              {turn.interrupted && <span className="ml-2 text-[10px] uppercase tracking-wider text-amber-400/80">(interrupted)</span>}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const EXPORT_FORMATS = [
+  { label: 'Markdown', extension: 'md', mimeType: 'text/markdown', render: reportToMarkdown },
+  { label: 'JSON', extension: 'json', mimeType: 'application/json', render: (r: InterviewReport) => reportToJson(r) },
+  { label: 'CSV', extension: 'csv', mimeType: 'text/csv', render: reportToCsv },
+  { label: 'Printable HTML', extension: 'html', mimeType: 'text/html', render: reportToHtml },
+];
+
+// Used when exporting from a study that has redaction switched off
+const DEFAULT_EXPORT_REDACTION: RedactionSettings = { mode: RedactionMode.MASK, customTerms: [] };
+
+const ExportMenu: React.FC<{ report: InterviewReport; redaction?: RedactionSettings }> = ({ report, redaction }) => {
+  const [redact, setRedact] = useState(isRedactionEnabled(redaction));
+
+  const handleExport = (format: typeof EXPORT_FORMATS[number]) => {
+    // Re-running redaction also catches anything in reports analysed before it was enabled
+    const settings = isRedactionEnabled(redaction) ? redaction : DEFAULT_EXPORT_REDACTION;
+    const output = redact ? redactReport(report, createReportRedactor(report, settings)) : report;
+    downloadFile(format.render(output), reportFileName(output, format.extension), format.mimeType);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-slate-500 uppercase tracking-wider">Export</span>
+      {EXPORT_FORMATS.map(format => (
+        <button
+          key={format.extension}
+          onClick={() => handleExport(format)}
+          className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-xs font-bold rounded text-slate-300 border border-slate-700 transition-colors"
+        >
+          {format.label}
+        </button>
+      ))}
+      <label className="flex items-center gap-1 ml-2 text-xs text-slate-400">
+        <input type="checkbox" checked={redact} onChange={(e) => setRedact(e.target.checked)} />
+        Redact PII
+      </label>
+    </div>
+  );
+};
+
+const SECTION_LABELS: Record<ReportSection, string> = {
+  profile: 'Subject Profile',
+  canvas: 'Empathy Canvas',
+  insights: 'Machine Insights',
+  quality: 'Interview Quality',
+};
+
+const SectionPlaceholder: React.FC<{ section: ReportSection }> = ({ section }) => (
+  <p className="text-sm text-amber-300/80 italic border border-dashed border-amber-500/30 rounded-lg px-4 py-3">
+    The {SECTION_LABELS[section]} could not be generated. Use "Retry failed sections" above.
+  </p>
+);
+
+const PartialReportBanner: React.FC<{ failed: ReportSection[]; onRetry?: () => Promise<void> }> = ({ failed, onRetry }) => {
+  const [retrying, setRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRetry = async () => {
+    if (!onRetry) return;
+    setRetrying(true);
+    setError(null);
+    try {
+      await onRetry();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-amber-950/30 border border-amber-500/40 rounded-2xl px-6 py-4 flex flex-wrap items-center gap-4">
+      <div className="flex-1 min-w-[16rem]">
+        <p className="text-amber-200 font-semibold">This report is incomplete</p>
+        <p className="text-sm text-amber-200/70">
+          Missing: {failed.map(section => SECTION_LABELS[section]).join(', ')}. Everything else below was generated successfully.
+        </p>
+        {error && <p className="text-sm text-red-400 mt-1">{error}</p>}
+      </div>
+      {onRetry && (
+        <button
+          onClick={handleRetry}
+          disabled={retrying}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white transition-colors"
+        >
+          {retrying ? 'Retrying...' : 'Retry failed sections'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Plain text only: reports can be imported from files, so their content is never treated as HTML
+const InsightsText: React.FC<{ text: string }> = ({ text }) => (
+  <div className="space-y-4">
+    {text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean).map((paragraph, i) => (
+      <p key={i} className="whitespace-pre-line">{paragraph}</p>
+    ))}
   </div>
 );
 
-const ReportView: React.FC<ReportViewProps> = ({ report, onRestart }) => {
+const EditedBadge: React.FC = () => (
+  <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase tracking-wider bg-emerald-900/30 text-emerald-300 border border-emerald-800 align-middle">
+    Edited by researcher
+  </span>
+);
+
+const ReportView: React.FC<ReportViewProps> = ({
+  report, recording, redaction, originalTranscript, onRestart, restartLabel = 'Start New', onRetrySections, history, onChange, onRegenerateSection
+}) => {
+  const [selection, setSelection] = useState<CanvasSelection | null>(null);
+  const [focusedQuestion, setFocusedQuestion] = useState<QuestionFlag | null>(null); // From the quality review
+  const [transcriptOpen, setTranscriptOpen] = useState(false);
+  const [playhead, setPlayhead] = useState<number | null>(null); // Wall-clock time under the audio playhead
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const audioUrl = useMemo(() => recording ? URL.createObjectURL(recording.blob) : null, [recording]);
+  useEffect(() => () => {
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+  }, [audioUrl]);
+
+  const activeTurn = useMemo(() => {
+    if (playhead === null) return -1;
+    let index = -1;
+    report.transcript.forEach((turn, i) => {
+      if (turn.startTime <= playhead) index = i;
+    });
+    return index;
+  }, [playhead, report.transcript]);
+
+  const handleSeek = (index: number) => {
+    if (!audioRef.current || !recording) return;
+    audioRef.current.currentTime = Math.max(0, (report.transcript[index].startTime - recording.startedAt) / 1000);
+    void audioRef.current.play();
+  };
+
+  const selectedItem = selection ? report.canvas[selection.quadrant][selection.index] : null;
+
+  // Turn index -> quotes to highlight for the selected canvas item or reviewed question
+  const highlighted = useMemo(() => {
+    const map = new Map<number, string[]>();
+    if (focusedQuestion) map.set(focusedQuestion.turnIndex, [focusedQuestion.quote]);
+    selectedItem?.evidence.forEach(ev => {
+      map.set(ev.turnIndex, [...(map.get(ev.turnIndex) || []), ev.quote]);
+    });
+    return map;
+  }, [selectedItem, focusedQuestion]);
+
+  const ledItems = useMemo(() => getLedCanvasItems(report), [report]);
+
+  const handleShowQuestion = (flag: QuestionFlag) => {
+    setSelection(null);
+    setFocusedQuestion(flag);
+    setTranscriptOpen(true);
+  };
+
+  const handleSelect = (quadrant: CanvasQuadrant) => (index: number) => {
+    const isSame = selection?.quadrant === quadrant && selection.index === index;
+    setFocusedQuestion(null);
+    setSelection(isSame ? null : { quadrant, index });
+    if (!isSame) setTranscriptOpen(true);
+  };
+
+  const failed = report.failedSections || [];
+  const edited = report.editedFields || [];
+
+  const edit = (next: InterviewReport, summary: string) => onChange?.(next, 'researcher', summary);
+
+  const regenerateControl = (section: RegenerableSection) => onRegenerateSection && (
+    <RegenerateControl
+      label={getRegenerableSectionLabel(section)}
+      onRegenerate={async (instruction) => {
+        setSelection(null);
+        await onRegenerateSection(section, instruction);
+      }}
+    />
+  );
+
+  const cardProps = (quadrant: CanvasQuadrant) => {
+    const label = getQuadrantLabel(quadrant);
+    return {
+      selectedIndex: selection?.quadrant === quadrant ? selection.index : null,
+      onSelect: handleSelect(quadrant),
+      actions: regenerateControl(quadrant),
+      ...(onChange && {
+        onEditItem: (index: number, text: string) => edit(editCanvasItem(report, quadrant, index, text), `Edited a ${label} point`),
+        onRemoveItem: (index: number) => {
+          setSelection(null);
+          edit(removeCanvasItem(report, quadrant, index), `Removed a ${label} point`);
+        },
+        onAddItem: (text: string) => edit(addCanvasItem(report, quadrant, text), `Added a ${label} point`),
+      }),
+    };
+  };
+
   return (
     <div className="max-w-6xl mx-auto p-6">
       
@@ -32,23 +394,57 @@ const ReportView: React.FC<ReportViewProps> = ({ report, onRestart }) => {
       <div className="mb-8 bg-slate-900/80 p-6 rounded-2xl border border-slate-700 shadow-xl">
         <div className="flex justify-between items-start">
             <div>
-                <h1 className="text-3xl font-bold text-white mb-2">{report.intervieweeName}</h1>
-                <div className="text-indigo-400 text-sm font-semibold uppercase tracking-wider mb-4">Subject Profile</div>
-                <p className="text-slate-300 leading-relaxed max-w-3xl">{report.biography}</p>
+                {onChange ? (
+                  <EditableText value={report.intervieweeName} onSave={(value) => edit(editReportField(report, 'intervieweeName', value), 'Edited the name')}>
+                    <h1 className="text-3xl font-bold text-white mb-2">{report.intervieweeName}</h1>
+                  </EditableText>
+                ) : (
+                  <h1 className="text-3xl font-bold text-white mb-2">{report.intervieweeName}</h1>
+                )}
+                <div className="flex flex-wrap items-center gap-3 text-indigo-400 text-sm font-semibold uppercase tracking-wider mb-4">
+                    Subject Profile
+                    {report.language && !isEnglish(report.language) && (
+                        <span className="normal-case tracking-normal font-normal text-slate-400">Interview in {getLanguageName(report.language)}; quotes are original</span>
+                    )}
+                    {(edited.includes('biography') || edited.includes('intervieweeName')) && <EditedBadge />}
+                    {regenerateControl('profile')}
+                </div>
+                {failed.includes('profile') ? (
+                  <SectionPlaceholder section="profile" />
+                ) : onChange ? (
+                  <EditableText multiline value={report.biography} onSave={(value) => edit(editReportField(report, 'biography', value), 'Edited the biography')}>
+                    <p className="text-slate-300 leading-relaxed max-w-3xl">{report.biography}</p>
+                  </EditableText>
+                ) : (
+                  <p className="text-slate-300 leading-relaxed max-w-3xl">{report.biography}</p>
+                )}
             </div>
-            <button onClick={onRestart} className="text-sm text-slate-500 hover:text-white underline">Start New</button>
+            <button onClick={onRestart} className="text-sm text-slate-500 hover:text-white underline">{restartLabel}</button>
+        </div>
+        <div className="mt-6 pt-4 border-t border-slate-800">
+            <ExportMenu report={report} redaction={redaction} />
         </div>
       </div>
 
+      {failed.length > 0 && <PartialReportBanner failed={failed} onRetry={onRetrySections} />}
+
+      {report.quality && getQualityWarnings(report.quality).length > 0 && (
+        <a href="#interview-quality" className="block mb-8 bg-amber-950/30 border border-amber-500/40 rounded-2xl px-6 py-3 text-sm text-amber-200 hover:border-amber-400">
+          The interview quality review found problems that may have shaped these findings. See Interview Quality below.
+        </a>
+      )}
+
       {/* Empathy Canvas Grid */}
       <h2 className="text-2xl font-bold text-white mb-6 border-l-4 border-indigo-500 pl-4">Empathy Canvas</h2>
+      {failed.includes('canvas') && <div className="mb-6"><SectionPlaceholder section="canvas" /></div>}
       
       {/* Top: Think/Feel */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
         <div className="md:col-span-2">
              <CanvasCard 
                 title="Think & Feel" 
-                items={report.canvas.thinkAndFeel} 
+                items={report.canvas.thinkAndFeel}
+                {...cardProps('thinkAndFeel')}
                 color="border-indigo-500/50" 
                 icon={<svg className="text-indigo-400" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z"></path><polyline points="3.27 6.96 12 12.01 20.73 6.96"></polyline><line x1="12" y1="22.08" x2="12" y2="12"></line></svg>}
             />
@@ -59,19 +455,22 @@ const ReportView: React.FC<ReportViewProps> = ({ report, onRestart }) => {
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
         <CanvasCard 
             title="See" 
-            items={report.canvas.see} 
+            items={report.canvas.see}
+            {...cardProps('see')}
             color="border-blue-500/30" 
             icon={<svg className="text-blue-400" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path><circle cx="12" cy="12" r="3"></circle></svg>}
         />
         <CanvasCard 
             title="Say & Do" 
-            items={report.canvas.sayAndDo} 
+            items={report.canvas.sayAndDo}
+            {...cardProps('sayAndDo')}
             color="border-purple-500/30" 
             icon={<svg className="text-purple-400" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 1a3 3 0 0 0-3 3v8a3 3 0 0 0 6 0V4a3 3 0 0 0-3-3z"></path><path d="M19 10v2a7 7 0 0 1-14 0v-2"></path><line x1="12" y1="19" x2="12" y2="23"></line><line x1="8" y1="23" x2="16" y2="23"></line></svg>}
         />
         <CanvasCard 
             title="Hear" 
-            items={report.canvas.hear} 
+            items={report.canvas.hear}
+            {...cardProps('hear')}
             color="border-cyan-500/30" 
             icon={<svg className="text-cyan-400" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon><path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path></svg>}
         />
@@ -81,13 +480,15 @@ const ReportView: React.FC<ReportViewProps> = ({ report, onRestart }) => {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
         <CanvasCard 
             title="Pains (Frustrations)" 
-            items={report.canvas.pains} 
+            items={report.canvas.pains}
+            {...cardProps('pains')}
             color="border-red-500/40" 
             icon={<svg className="text-red-400" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="15" y1="9" x2="9" y2="15"></line><line x1="9" y1="9" x2="15" y2="15"></line></svg>}
         />
         <CanvasCard 
             title="Gains (Motivations)" 
-            items={report.canvas.gains} 
+            items={report.canvas.gains}
+            {...cardProps('gains')}
             color="border-emerald-500/40" 
             icon={<svg className="text-emerald-400" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01L12 2z"></path></svg>}
         />
@@ -95,21 +496,113 @@ const ReportView: React.FC<ReportViewProps> = ({ report, onRestart }) => {
 
       {/* Machine Insights */}
       <div className="bg-slate-900 border border-slate-700 rounded-2xl p-6 mb-8">
-        <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+        <h2 className="text-xl font-bold text-white mb-4 flex flex-wrap items-center gap-2">
             <svg className="text-yellow-400" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z"></path><line x1="12" y1="22" x2="12" y2="12"></line><line x1="2.2" y1="7.5" x2="11.5" y2="12.5"></line><line x1="21.8" y1="7.5" x2="12.5" y2="12.5"></line></svg>
             Machine Intelligence Insights
+            {edited.includes('machineInsights') && <EditedBadge />}
+            {regenerateControl('insights')}
         </h2>
         <div className="prose prose-invert max-w-none text-slate-300">
-            <div dangerouslySetInnerHTML={{ __html: report.machineInsights.replace(/\n/g, '<br/>') }} />
+            {failed.includes('insights') ? (
+              <SectionPlaceholder section="insights" />
+            ) : onChange ? (
+              <EditableText multiline value={report.machineInsights} onSave={(value) => edit(editReportField(report, 'machineInsights', value), 'Edited the insights')}>
+                <InsightsText text={report.machineInsights} />
+              </EditableText>
+            ) : (
+              <InsightsText text={report.machineInsights} />
+            )}
         </div>
       </div>
+
+      {/* Interviewer review */}
+      {failed.includes('quality') ? (
+        <div className="bg-slate-900 border border-slate-700 rounded-2xl p-6 mb-8">
+          <h2 className="text-xl font-bold text-white mb-4">Interview Quality</h2>
+          <SectionPlaceholder section="quality" />
+        </div>
+      ) : report.quality ? (
+        <InterviewQualityPanel
+          quality={report.quality}
+          ledItems={ledItems}
+          focusedTurn={focusedQuestion?.turnIndex ?? null}
+          onShowQuestion={handleShowQuestion}
+          actions={regenerateControl('quality')}
+        />
+      ) : onRegenerateSection && (
+        // Reports from before the review existed can have one made on demand
+        <div className="bg-slate-900 border border-slate-700 rounded-2xl p-6 mb-8">
+          <h2 className="text-xl font-bold text-white flex flex-wrap items-center gap-2">
+            Interview Quality
+            <span className="text-sm font-normal text-slate-500">Not reviewed yet</span>
+            {regenerateControl('quality')}
+          </h2>
+        </div>
+      )}
+
+      {onChange && (
+        <ReportNotes
+          notes={report.notes || ''}
+          tags={report.tags || []}
+          onChange={(patch) => edit({ ...report, ...patch }, patch.tags ? 'Updated tags' : 'Updated notes')}
+        />
+      )}
+
+      {onChange && history && history.length > 0 && (
+        <ReportHistory
+          history={history}
+          onRestore={(version) => onChange(restoreReportVersion(report, version), 'researcher', `Restored version ${version.version}`)}
+        />
+      )}
       
+      {/* Audio Recording */}
+      {recording && audioUrl && (
+        <div className="bg-slate-900 border border-slate-700 rounded-2xl p-6 mb-8">
+          <div className="flex justify-between items-baseline mb-4">
+            <h2 className="text-xl font-bold text-white">Interview Recording</h2>
+            <a href={audioUrl} download={reportFileName(report, 'wav')} className="text-xs text-indigo-400 hover:text-white">Download WAV</a>
+          </div>
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            controls
+            className="w-full"
+            onPlay={() => setTranscriptOpen(true)}
+            onTimeUpdate={(e) => setPlayhead(recording.startedAt + e.currentTarget.currentTime * 1000)}
+          />
+          <p className="text-xs text-slate-500 mt-2">
+            Participant on the left channel, interviewer on the right. Click any transcript turn to jump to it.
+          </p>
+        </div>
+      )}
+
+      {isRedactionEnabled(redaction) && originalTranscript && (
+        <RedactionReview settings={redaction} originalTranscript={originalTranscript} />
+      )}
+
       {/* Transcript Details */}
-      <details className="bg-slate-950/50 rounded-xl p-4 border border-slate-800">
-        <summary className="cursor-pointer text-slate-500 font-semibold hover:text-slate-300">View Raw Transcript</summary>
-        <pre className="mt-4 whitespace-pre-wrap text-xs text-slate-400 font-mono">
-            {report.transcript}
-        </pre>
+      <details
+        open={transcriptOpen}
+        onToggle={(e) => setTranscriptOpen((e.target as HTMLDetailsElement).open)}
+        className="bg-slate-950/50 rounded-xl p-4 border border-slate-800"
+      >
+        <summary className="cursor-pointer text-slate-500 font-semibold hover:text-slate-300">
+          View Transcript
+          {focusedQuestion && (
+            <span className="ml-2 text-xs font-normal text-indigo-300">Showing the question "{focusedQuestion.quote}"</span>
+          )}
+          {selectedItem && (
+            <span className="ml-2 text-xs font-normal text-indigo-300">
+              {selectedItem.verified ? `Showing evidence for "${selectedItem.text}"` : `"${selectedItem.text}" has no verifiable quote`}
+            </span>
+          )}
+        </summary>
+        <TranscriptPanel
+          turns={report.transcript}
+          highlighted={highlighted}
+          activeIndex={activeTurn}
+          onSeek={recording ? handleSeek : undefined}
+        />
       </details>
     </div>
   );
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { InterviewRecord, StudyRecord, StudyStore } from '../services/studyStore';
+import { getConversationTurns } from '../utils/transcriptUtils';
+import { parseReportDocument } from '../utils/exportUtils';
+import { InterviewReport } from '../types';
+
+interface StudyLibraryProps {
+  store: StudyStore;
+  onOpenReport: (study: StudyRecord, interview: InterviewRecord) => void;
+  onAnalyzeInterview: (study: StudyRecord, interview: InterviewRecord) => void;
+  onResumeCampaign: (study: StudyRecord) => void;
+  onRehearse: (study: StudyRecord) => void;
+  onSynthesize: (study: StudyRecord, interviews: InterviewRecord[]) => void;
+  onViewSynthesis: (study: StudyRecord) => void;
+  onImportReport: (report: InterviewReport) => void;
+  onBack: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const StudyCard: React.FC<{
+  study: StudyRecord;
+  interviews: InterviewRecord[];
+  onOpenReport: (interview: InterviewRecord) => void;
+  onAnalyzeInterview: (interview: InterviewRecord) => void;
+  onResumeCampaign: () => void;
+  onRehearse: () => void;
+  onSynthesize: () => void;
+  onViewSynthesis: () => void;
+  onDelete: () => void;
+}> = ({ study, interviews, onOpenReport, onAnalyzeInterview, onResumeCampaign, onRehearse, onSynthesize, onViewSynthesis, onDelete }) => {
+  const reportCount = interviews.filter(i => i.report).length;
+  const participantEmail = (interview: InterviewRecord) =>
+    study.participants.find(p => p.id === interview.participantId)?.email ?? 'Demo interview';
+  const interviewLabel = (interview: InterviewRecord) => interview.simulation
+    ? `Simulated: ${interview.simulation.persona.name} (${interview.simulation.style})`
+    : interview.report?.intervieweeName || participantEmail(interview);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
+      <div className="flex justify-between items-start gap-4 mb-4">
+        <div className="min-w-0">
+          <h3 className="text-lg font-bold text-white truncate">{study.config.challenge || 'Untitled study'}</h3>
+          <p className="text-xs text-slate-500 mt-1">
+            Created {formatDate(study.createdAt)} · {study.config.style} · {study.config.mode}
+            {study.participants.length > 0 && ` · ${study.participants.length} participants`}
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {study.synthesis && (
+            <button
+              onClick={onViewSynthesis}
+              className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-xs font-bold rounded text-white transition-colors"
+            >
+              View Synthesis
+            </button>
+          )}
+          {reportCount >= 2 && (
+            <button
+              onClick={onSynthesize}
+              className="px-3 py-1 bg-purple-700 hover:bg-purple-600 text-xs font-bold rounded text-white transition-colors"
+            >
+              Synthesize {reportCount}
+            </button>
+          )}
+          {study.participants.length > 0 && (
+            <button
+              onClick={onResumeCampaign}
+              className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-xs font-bold rounded text-white transition-colors"
+            >
+              Open Campaign
+            </button>
+          )}
+          <button
+            onClick={onRehearse}
+            className="px-3 py-1 bg-slate-800 hover:bg-slate-700 text-xs font-bold rounded text-white transition-colors"
+          >
+            Rehearse
+          </button>
+          <button
+            onClick={onDelete}
+            className="px-3 py-1 bg-slate-900 hover:bg-red-900/40 text-xs font-bold rounded text-red-400 border border-red-900/50 transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+
+      {interviews.length === 0 ? (
+        <p className="text-sm text-slate-600 italic">No interviews recorded yet.</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {interviews.map(interview => (
+            <div key={interview.id} className="bg-slate-800 p-3 rounded-lg flex items-center justify-between gap-3 border border-slate-700">
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-slate-300 truncate">
+                  {interviewLabel(interview)}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {formatDate(interview.updatedAt)} · {getConversationTurns(interview.transcript).length} turns
+                </div>
+              </div>
+              {interview.report ? (
+                <button
+                  onClick={() => onOpenReport(interview)}
+                  className="px-3 py-1 bg-emerald-700 hover:bg-emerald-600 text-xs font-bold rounded text-white transition-colors shrink-0"
+                >
+                  Open Report
+                </button>
+              ) : (
+                <button
+                  onClick={() => onAnalyzeInterview(interview)}
+                  disabled={interview.transcript.length === 0}
+                  className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-xs font-bold rounded text-white transition-colors shrink-0"
+                >
+                  Generate Report
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const StudyLibrary: React.FC<StudyLibraryProps> = ({ store, onOpenReport, onAnalyzeInterview, onResumeCampaign, onRehearse, onSynthesize, onViewSynthesis, onImportReport, onBack }) => {
+  const [studies, setStudies] = useState<StudyRecord[]>([]);
+  const [interviews, setInterviews] = useState<Record<string, InterviewRecord[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const allStudies = await store.listStudies();
+      const entries = await Promise.all(
+        allStudies.map(async study => [study.id, await store.listInterviews(study.id)] as const)
+      );
+      setStudies(allStudies);
+      setInterviews(Object.fromEntries(entries));
+    } catch (err: any) {
+      console.error("Failed to load study library", err);
+      setError(err.message || "Could not read the local study library.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, [store]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImportReport(parseReportDocument(await file.text()));
+    } catch (err: any) {
+      console.error("Error importing report", err);
+      alert(err.message || "Failed to import the report.");
+    }
+  };
+
+  const handleDelete = async (study: StudyRecord) => {
+    if (!confirm(`Delete "${study.config.challenge || 'Untitled study'}" and all of its interviews?`)) return;
+    try {
+      await store.deleteStudy(study.id);
+    } catch (err: any) {
+      console.error("Error deleting study", err);
+      alert(err.message || "Failed to delete the study.");
+    }
+    await load();
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="flex justify-between items-end mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Study Library</h1>
+          <p className="text-slate-400 mt-2">Studies, transcripts and reports saved in this browser.</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="text-xs text-indigo-400 hover:text-white cursor-pointer bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-md transition-colors border border-slate-700">
+            Import Report (JSON)
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </label>
+          <button onClick={onBack} className="text-sm text-slate-500 hover:text-white underline">Back</button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-20">
+          <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : error ? (
+        <div className="bg-slate-900 border border-red-900/30 rounded-xl p-6 text-red-400 text-sm">{error}</div>
+      ) : studies.length === 0 ? (
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-10 text-center text-slate-500">
+          No saved studies yet. Run an interview and it will appear here.
+        </div>
+      ) : (
+        <div className="flex flex-col gap-6">
+          {studies.map(study => (
+            <StudyCard
+              key={study.id}
+              study={study}
+              interviews={interviews[study.id] || []}
+              onOpenReport={(interview) => onOpenReport(study, interview)}
+              onAnalyzeInterview={(interview) => onAnalyzeInterview(study, interview)}
+              onResumeCampaign={() => onResumeCampaign(study)}
+              onRehearse={() => onRehearse(study)}
+              onSynthesize={() => onSynthesize(study, interviews[study.id] || [])}
+              onViewSynthesis={() => onViewSynthesis(study)}
+              onDelete={() => handleDelete(study)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudyLibrary;
@@ -0,0 +1,104 @@
+import React from 'react';
+import { SynthesisReport, ThemeCluster } from '../types';
+import { CANVAS_QUADRANTS, getQuadrantLabel } from '../utils/canvasUtils';
+
+interface SynthesisViewProps {
+  synthesis: SynthesisReport;
+  onBack: () => void;
+}
+
+const ThemeCard: React.FC<{ theme: ThemeCluster; total: number }> = ({ theme, total }) => {
+  const share = total > 0 ? Math.round((theme.mentionCount / total) * 100) : 0;
+
+  return (
+    <div className="p-4 rounded-lg bg-slate-950/60 border border-slate-800">
+      <div className="flex justify-between items-start gap-3 mb-2">
+        <h4 className="font-bold text-slate-100 text-sm">{theme.theme}</h4>
+        <span className="text-xs text-indigo-300 font-semibold whitespace-nowrap">
+          {theme.mentionCount} / {total} participants
+        </span>
+      </div>
+      <div className="h-1.5 bg-slate-800 rounded-full mb-3 overflow-hidden">
+        <div className="h-full bg-indigo-500 rounded-full" style={{ width: `${share}%` }}></div>
+      </div>
+      <p className="text-slate-400 text-sm mb-3">{theme.summary}</p>
+      {theme.representativeQuotes.length > 0 && (
+        <ul className="space-y-2 mb-3">
+          {theme.representativeQuotes.map((q, idx) => (
+            <li key={idx} className="text-xs text-slate-300 border-l-2 border-indigo-500/50 pl-3 italic">
+              "{q.quote}" <span className="not-italic text-slate-500">— {q.participant}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-1">
+        {theme.participants.map(name => (
+          <span key={name} className="px-2 py-0.5 rounded text-[10px] bg-slate-800 text-slate-400 border border-slate-700">{name}</span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SynthesisView: React.FC<SynthesisViewProps> = ({ synthesis, onBack }) => {
+  const total = synthesis.participantNames.length;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      {/* Header */}
+      <div className="mb-8 bg-slate-900/80 p-6 rounded-2xl border border-slate-700 shadow-xl">
+        <div className="flex justify-between items-start">
+          <div>
+            <div className="text-indigo-400 text-sm font-semibold uppercase tracking-wider mb-2">Cross-Interview Synthesis</div>
+            <h1 className="text-3xl font-bold text-white mb-2">{synthesis.challenge}</h1>
+            <p className="text-slate-500 text-sm mb-4">
+              {total} interviews · generated {new Date(synthesis.generatedAt).toLocaleString()}
+            </p>
+            <div className="text-slate-300 leading-relaxed max-w-3xl whitespace-pre-line">{synthesis.overview}</div>
+          </div>
+          <button onClick={onBack} className="text-sm text-slate-500 hover:text-white underline">Back</button>
+        </div>
+      </div>
+
+      {/* Aggregated canvas */}
+      <h2 className="text-2xl font-bold text-white mb-6 border-l-4 border-indigo-500 pl-4">Aggregated Empathy Canvas</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        {CANVAS_QUADRANTS.map(({ key, label }) => {
+          const themes = synthesis.themes.filter(t => t.quadrant === key);
+          return (
+            <div key={key} className="p-4 rounded-xl bg-slate-900 border border-slate-700">
+              <h3 className="font-bold text-slate-100 uppercase tracking-wide text-sm mb-3 border-b border-slate-800 pb-2">{label}</h3>
+              <div className="space-y-3">
+                {themes.map((theme, idx) => <ThemeCard key={idx} theme={theme} total={total} />)}
+                {themes.length === 0 && <p className="text-slate-600 italic text-xs">No shared themes identified.</p>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Outliers */}
+      <div className="bg-slate-900 border border-slate-700 rounded-2xl p-6">
+        <h2 className="text-xl font-bold text-white mb-4">Outlier Views</h2>
+        {synthesis.outliers.length === 0 ? (
+          <p className="text-slate-600 italic text-sm">No divergent views were identified.</p>
+        ) : (
+          <ul className="space-y-3">
+            {synthesis.outliers.map((outlier, idx) => (
+              <li key={idx} className="text-sm text-slate-300 flex gap-3 items-start">
+                <span className="px-2 py-0.5 rounded text-[10px] uppercase tracking-wider bg-amber-900/30 text-amber-300 border border-amber-800 whitespace-nowrap">
+                  {getQuadrantLabel(outlier.quadrant)}
+                </span>
+                <span>
+                  {outlier.view} <span className="text-slate-500">— {outlier.participant}</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SynthesisView;
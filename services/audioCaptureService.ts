@@ -0,0 +1,193 @@
+import { float32ToInt16, StreamResampler, VoiceActivityDetector } from "../utils/audioUtils";
+
+// The live API expects 16kHz 16-bit mono PCM
+export const CAPTURE_SAMPLE_RATE = 16000;
+
+// Audio is handed from the worklet to the main thread in frames of this length
+const FRAME_SECONDS = 0.04;
+
+// Frames kept while silent and sent when speech starts, so the first syllable is not lost
+const PRE_ROLL_FRAMES = 8;
+
+// Runs on the audio rendering thread and only batches samples, so React renders on the
+// main thread cannot cause dropouts. Loaded from a Blob URL so no separate file has to be served.
+const WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.frame = new Float32Array(Math.round(sampleRate * ${FRAME_SECONDS}));
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.frame.length - this.filled);
+      this.frame.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.frame.length) {
+        const full = this.frame;
+        this.port.postMessage(full, [full.buffer]);
+        this.frame = new Float32Array(full.length);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('capture-processor', CaptureProcessor);
+`;
+
+let workletUrl: string | null = null;
+const getWorkletUrl = () => {
+  if (!workletUrl) workletUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+  return workletUrl;
+};
+
+export type MicrophoneMode = 'open' | 'push-to-talk';
+
+// What reaches the interviewer: speech only, everything (push-to-talk held) or nothing (muted)
+export type CaptureGate = 'voice' | 'open' | 'closed';
+
+export interface MicrophoneCaptureHandlers {
+  onAudio: (pcm: Int16Array) => void; // 16kHz audio that passed the gate, starting with a short pre-roll
+  onSpeechEnd: () => void; // Audio stopped passing the gate; nothing follows until it opens again
+  onFrame?: (pcm: Int16Array, startedAt: number) => void; // Every 16kHz frame while not muted, silence included, e.g. for recording
+  onHeardChange?: (heard: boolean) => void; // Whether the participant's audio is currently reaching the interviewer
+}
+
+// Echo cancellation keeps the interviewer's voice from the speakers out of the microphone,
+// where it would count as the participant talking over it
+const MICROPHONE_CONSTRAINTS: MediaTrackConstraints = { echoCancellation: true, noiseSuppression: true, autoGainControl: true };
+
+/**
+ * Opens the chosen microphone, or the default one when it is gone (e.g. a headset was unplugged).
+ */
+export const openMicrophone = async (deviceId?: string): Promise<MediaStream> => {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { ...MICROPHONE_CONSTRAINTS, deviceId: { exact: deviceId } } });
+    } catch (err: any) {
+      if (err.name !== 'OverconstrainedError' && err.name !== 'NotFoundError') throw err;
+      console.warn("Selected microphone unavailable, using the default", err);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: MICROPHONE_CONSTRAINTS });
+};
+
+// Device names are only filled in once microphone access was granted
+export const listMicrophones = async (): Promise<MediaDeviceInfo[]> =>
+  (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'audioinput');
+
+/**
+ * Microphone capture on an AudioWorklet. The context runs at the device's native rate,
+ * which every browser accepts; audio is resampled to 16kHz explicitly and passes a gate
+ * (see setGate) driven by a voice activity detector. `level`, `speaking` and `heard`
+ * can be polled, e.g. by a meter.
+ */
+export class MicrophoneCapture {
+  level = 0;
+  speaking = false; // Voice activity, whether or not it passes the gate
+  heard = false;
+  private gate: CaptureGate = 'voice';
+  private streaming = false; // Audio was sent since the last end of speech
+  private context: AudioContext;
+  private source: MediaStreamAudioSourceNode;
+  private node: AudioWorkletNode;
+  private handlers: MicrophoneCaptureHandlers;
+  private resampler: StreamResampler;
+  private detector = new VoiceActivityDetector();
+  private preRoll: Int16Array[] = [];
+
+  private constructor(context: AudioContext, source: MediaStreamAudioSourceNode, node: AudioWorkletNode, handlers: MicrophoneCaptureHandlers) {
+    this.context = context;
+    this.source = source;
+    this.node = node;
+    this.handlers = handlers;
+    this.resampler = new StreamResampler(context.sampleRate, CAPTURE_SAMPLE_RATE);
+    node.port.onmessage = (e: MessageEvent<Float32Array>) => this.handleFrame(e.data);
+  }
+
+  static async start(stream: MediaStream, handlers: MicrophoneCaptureHandlers): Promise<MicrophoneCapture> {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const context: AudioContext = new AudioContextClass();
+    try {
+      await context.audioWorklet.addModule(getWorkletUrl());
+      const source = context.createMediaStreamSource(stream);
+      // No outputs: the node is a sink and nothing is played back
+      const node = new AudioWorkletNode(context, 'capture-processor', { numberOfInputs: 1, numberOfOutputs: 0, channelCount: 1 });
+      source.connect(node);
+      return new MicrophoneCapture(context, source, node, handlers);
+    } catch (err) {
+      console.error("Failed to start microphone capture", err);
+      void context.close();
+      throw new Error("Could not start the microphone. Try another browser or check the audio settings.");
+    }
+  }
+
+  /**
+   * Mute and push-to-talk act here, on the audio itself, so they take effect with the
+   * next frame. Closing the gate mid-speech ends the participant's turn.
+   */
+  setGate(gate: CaptureGate) {
+    this.gate = gate;
+    if (gate === 'closed') {
+      this.preRoll = [];
+      this.endSpeech();
+      this.setHeard(false);
+    }
+  }
+
+  private endSpeech() {
+    if (!this.streaming) return;
+    this.streaming = false;
+    this.handlers.onSpeechEnd();
+  }
+
+  private setHeard(heard: boolean) {
+    if (heard === this.heard) return;
+    this.heard = heard;
+    this.handlers.onHeardChange?.(heard);
+  }
+
+  private handleFrame(samples: Float32Array) {
+    const startedAt = Date.now() - (samples.length / this.context.sampleRate) * 1000;
+    const pcm = float32ToInt16(this.resampler.process(samples));
+    const { level, speaking } = this.detector.process(samples, this.context.sampleRate);
+    this.level = level;
+    this.speaking = speaking;
+    if (this.gate === 'closed') return;
+    this.handlers.onFrame?.(pcm, startedAt);
+
+    const passes = this.gate === 'open' || speaking;
+    if (passes) {
+      if (!this.streaming) {
+        this.preRoll.forEach(frame => this.handlers.onAudio(frame));
+        this.preRoll = [];
+        this.streaming = true;
+      }
+      this.handlers.onAudio(pcm);
+    } else {
+      this.endSpeech();
+      this.preRoll = [...this.preRoll, pcm].slice(-PRE_ROLL_FRAMES);
+    }
+    this.setHeard(passes);
+  }
+
+  async stop() {
+    this.node.port.onmessage = null;
+    this.source.disconnect();
+    this.level = 0;
+    this.setHeard(false);
+    if (this.context.state !== 'closed') {
+      try {
+        await this.context.close();
+      } catch (err) {
+        console.warn("Error closing capture AudioContext", err);
+      }
+    }
+  }
+}
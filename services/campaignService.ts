@@ -0,0 +1,99 @@
+import { Campaign, DeepResearchData, InterviewReport, Participant, ParticipantStatus } from "../types";
+
+// Deliberately permissive: we only want to catch obvious typos, not enforce RFC 5322.
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+
+export interface ParsedEmailList {
+  valid: string[];
+  invalid: string[];
+  duplicates: string[];
+}
+
+/**
+ * Splits a free-form list of addresses (commas, semicolons, whitespace or new lines)
+ * into valid, invalid and duplicate entries. Addresses are compared case-insensitively.
+ */
+export const parseEmailList = (raw: string): ParsedEmailList => {
+  const result: ParsedEmailList = { valid: [], invalid: [], duplicates: [] };
+  const seen = new Set<string>();
+
+  raw
+    .split(/[\s,;]+/)
+    .map(entry => entry.trim().replace(/^<|>$/g, ''))
+    .filter(Boolean)
+    .forEach(entry => {
+      const email = entry.toLowerCase();
+      if (!EMAIL_PATTERN.test(email)) {
+        result.invalid.push(entry);
+      } else if (seen.has(email)) {
+        result.duplicates.push(entry);
+      } else {
+        seen.add(email);
+        result.valid.push(email);
+      }
+    });
+
+  return result;
+};
+
+/**
+ * Generates a random, URL-safe identifier.
+ */
+export const generateId = (bytes: number = 16): string => {
+  const values = new Uint8Array(bytes);
+  crypto.getRandomValues(values);
+  return Array.from(values, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createCampaign = (config: DeepResearchData, emails: string[]): Campaign => {
+  const now = Date.now();
+  return {
+    id: generateId(8),
+    config,
+    createdAt: now,
+    participants: emails.map(email => ({
+      id: generateId(8),
+      email,
+      inviteToken: generateId(),
+      status: ParticipantStatus.INVITED,
+      invitedAt: now,
+      updatedAt: now,
+    })),
+  };
+};
+
+export const getInviteLink = (participant: Participant): string =>
+  `${window.location.origin}${window.location.pathname}?invite=${participant.inviteToken}`;
+
+export const findParticipantByToken = (campaign: Campaign, token: string): Participant | undefined =>
+  campaign.participants.find(p => p.inviteToken === token);
+
+const updateParticipant = (
+  campaign: Campaign,
+  participantId: string,
+  patch: Partial<Pick<Participant, 'status' | 'report' | 'language'>>
+): Campaign => ({
+  ...campaign,
+  participants: campaign.participants.map(p =>
+    p.id === participantId ? { ...p, ...patch, updatedAt: Date.now() } : p
+  ),
+});
+
+export const setParticipantStatus = (campaign: Campaign, participantId: string, status: ParticipantStatus): Campaign =>
+  updateParticipant(campaign, participantId, { status });
+
+// undefined falls back to the study language
+export const setParticipantLanguage = (campaign: Campaign, participantId: string, language: string | undefined): Campaign =>
+  updateParticipant(campaign, participantId, { language });
+
+export const attachReport = (campaign: Campaign, participantId: string, report: InterviewReport): Campaign =>
+  updateParticipant(campaign, participantId, { report, status: ParticipantStatus.COMPLETED });
+
+export const countByStatus = (campaign: Campaign): Record<ParticipantStatus, number> => {
+  const counts = Object.values(ParticipantStatus).reduce(
+    (acc, status) => ({ ...acc, [status]: 0 }),
+    {} as Record<ParticipantStatus, number>
+  );
+  campaign.participants.forEach(p => { counts[p.status] += 1; });
+  return counts;
+};
@@ -1,26 +1,54 @@
-import { GoogleGenAI, LiveServerMessage, Modality, Type, Chat, GenerateContentResponse } from "@google/genai";
-import { DeepResearchData, InterviewReport, InterviewStyle } from "../types";
+import { CanvasQuadrant, DeepResearchData, EmpathyCanvas, InterviewMode, InterviewQuality, InterviewReport, InterviewStyle, LiveCanvas, RegenerableSection, ReportSection, ReportTextField, SynthesisReport, ThemeCluster, TranscriptTurn } from "../types";
+import { createEmptyCanvas, mergeCanvases, QUADRANT_KEYS, verifyCanvasEvidence } from "../utils/canvasUtils";
+import { formatNumberedTranscript, formatTranscript, getConversationTurns, splitTranscript } from "../utils/transcriptUtils";
+import { formatGuideForPrompt, getGuideQuestions } from "../utils/guideUtils";
+import { selectRelevantContext } from "../utils/contextRetrieval";
+import { getDurationMinutes } from "../utils/pacingUtils";
+import { measureInterviewer, verifyQuestionFlags } from "../utils/qualityUtils";
+import { getInterviewLanguage, getLanguageName, getReportLanguage, isEnglish } from "../utils/languageUtils";
+import { createReportRedactor, createTranscriptRedactor, isRedactionEnabled, redactReport, redactReportPatch, redactTranscript } from "../utils/redaction";
+import { ChatSession, generateValidatedJson, getLlmProvider, JsonSchema, LiveSession, LlmProvider } from "./llm";
 
-// Helper to clean JSON strings
-const cleanJson = (text: string) => {
-  try {
-    return text.replace(/```json/g, '').replace(/```/g, '').trim();
-  } catch (e) {
-    return text;
-  }
+// Characters of research context per prompt; the rest of a long deck is left out by relevance
+const INTERVIEW_CONTEXT_CHARS = 6000;
+const REPORT_CONTEXT_CHARS = 4000;
+
+// The interviewer needs the passages about the research goal and the guide's topics
+const getInterviewQuery = (config: DeepResearchData) =>
+  [config.challenge, ...getGuideQuestions(config.guide).map(q => q.text)].join('\n');
+
+const getLanguageInstruction = (config: DeepResearchData) => {
+  const language = getInterviewLanguage(config);
+  if (isEnglish(language)) return '';
+  const name = getLanguageName(language);
+  return `
+      Language: Conduct the entire interview in ${name}, including your introduction, in a natural register for that market.
+      The research context and guide may be written in another language; translate questions naturally rather than word for word.
+      Private guidance notes are written in English. Follow them but keep speaking ${name}.`;
+};
+
+// Quotes stay in the participant's own words; everything the team reads is in the team's language
+const getReportLanguageInstruction = (config: DeepResearchData) => {
+  const interview = getLanguageName(getInterviewLanguage(config));
+  const report = getLanguageName(getReportLanguage(config));
+  return interview === report
+    ? `Write everything in ${report}.`
+    : `The interview was held in ${interview}. Write the biography, every canvas item and the Machine Insights in ${report}, but keep evidence quotes verbatim in ${interview}. Never translate a quote.`;
 };
 
+const getStyleInstruction = (style: InterviewStyle) => style === InterviewStyle.DIRECT
+  ? "Ask direct questions to fill the canvas efficiently."
+  : "Be conversational, subtle, and indirect. Use the 'Columbo method' or mirroring to get deeper answers without asking directly.";
+
 const getSystemInstruction = (config: DeepResearchData) => {
-  const styleInstruction = config.style === InterviewStyle.DIRECT 
-      ? "Ask direct questions to fill the canvas efficiently."
-      : "Be conversational, subtle, and indirect. Use the 'Columbo method' or mirroring to get deeper answers without asking directly.";
+  const styleInstruction = getStyleInstruction(config.style);
 
   return `
       You are an expert User Researcher conducting a deep-dive interview.
       Your Goal: Fill an 'Empathy Canvas' (Think&Feel, See, Hear, Say&Do, Pains, Gains) for the following challenge: "${config.challenge}".
       
-      Deep Research Context: 
-      "${config.context.substring(0, 3000)}"
+      Deep Research Context (most relevant passages, labelled with their source):
+      "${selectRelevantContext(config, getInterviewQuery(config), INTERVIEW_CONTEXT_CHARS)}"
       
       Interview Style: ${config.style}. ${styleInstruction}
 
@@ -30,190 +58,888 @@ const getSystemInstruction = (config: DeepResearchData) => {
       3. Reactionary: Acknowledge their specific answers before moving to the next area.
       
       Keep responses short and focused on the user.
+
+      Time: This session is booked for ${getDurationMinutes(config)} minutes. You will receive private time checks; pace the conversation accordingly and start wrapping up when told to.
+      ${getLanguageInstruction(config)}
+      ${config.guide && config.guide.sections.length > 0 ? formatGuideForPrompt(config.guide) : ''}
     `;
 };
 
+// Wraps researcher/system guidance so the interviewer never mistakes it for the participant
+const formatGuidance = (notes: string[]) =>
+  `[Private interviewer guidance, not said by the participant. Never mention or read it aloud: ${notes.join(' ')}]`;
+
 export class GeminiChatService {
   private config: DeepResearchData;
-  private chat: Chat | null = null;
+  private provider: LlmProvider;
+  private chat: ChatSession | null = null;
+  private pendingGuidance: string[] = [];
 
-  constructor(config: DeepResearchData) {
+  constructor(config: DeepResearchData, provider: LlmProvider = getLlmProvider()) {
     this.config = config;
+    this.provider = provider;
   }
 
-  async start(onMessage: (text: string) => void) {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    this.chat = ai.chats.create({
-      model: 'gemini-3-flash-preview',
-      config: {
-        systemInstruction: getSystemInstruction(this.config),
-      },
-    });
+  /**
+   * Opens the chat. A transcript means the interview began by voice and continues here.
+   */
+  async start(onMessage: (text: string) => void, transcript: TranscriptTurn[] = []) {
+    const isModeSwitch = getConversationTurns(transcript).length > 0;
+    this.chat = this.provider.createChat(getSystemInstruction(this.config) +
+      (isModeSwitch ? getModeSwitchInstruction(transcript, this.config, InterviewMode.TEXT) : ''));
 
-    const response = await this.chat.sendMessage({ message: "System: The user has joined the chat. Please introduce yourself and start the interview." });
-    if (response.text) {
-      onMessage(response.text);
+    const text = await this.chat.send(isModeSwitch
+      ? "System: The participant has switched to text chat. Briefly acknowledge it and continue the interview."
+      : "System: The user has joined the chat. Please introduce yourself and start the interview.");
+    if (text) {
+      onMessage(text);
     }
   }
 
+  /**
+   * Queues guidance for the interviewer. It is attached to the next participant
+   * message, since a chat model only reads input when the participant replies.
+   */
+  sendGuidance(note: string) {
+    this.pendingGuidance.push(note);
+  }
+
+  // Guidance not yet applied, handed over when the interview continues by voice
+  takePendingGuidance(): string[] {
+    const notes = this.pendingGuidance;
+    this.pendingGuidance = [];
+    return notes;
+  }
+
   async sendMessage(message: string, onChunk: (text: string) => void) {
     if (!this.chat) throw new Error("Chat not initialized");
     
-    const result = await this.chat.sendMessageStream({ message });
-    for await (const chunk of result) {
-      const c = chunk as GenerateContentResponse;
-      if (c.text) {
-        onChunk(c.text);
-      }
-    }
+    const guidance = this.pendingGuidance.length > 0 ? `${formatGuidance(this.pendingGuidance)}\n\n` : '';
+    this.pendingGuidance = [];
+    await this.chat.sendStream(`${guidance}${message}`, onChunk);
   }
 }
 
+// Waits between automatic reconnect attempts; once they run out the session is reported lost
+const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000, 16000];
+export const MAX_RECONNECT_ATTEMPTS = RECONNECT_DELAYS_MS.length;
+
+// Most recent part of the conversation replayed into a resumed session
+const RESUME_TRANSCRIPT_CHARS = 6000;
+
+export type LiveConnectionState = 'connected' | 'reconnecting' | 'lost';
+
+export interface LiveConnectionOptions {
+  getTranscript: () => TranscriptTurn[]; // Read at reconnect time to brief the new session
+  isModeSwitch?: boolean; // The interview began in text chat; the first session is briefed on it too
+  onConnectionChange: (state: LiveConnectionState, attempt: number) => void;
+  onInterrupted?: () => void; // The participant talked over the interviewer; queued playback should stop
+  onTurnComplete?: () => void;
+}
+
+const getRecentTranscript = (transcript: TranscriptTurn[]) => {
+  const recap = formatTranscript(transcript);
+  return recap.length > RESUME_TRANSCRIPT_CHARS ? `...${recap.slice(-RESUME_TRANSCRIPT_CHARS)}` : recap;
+};
+
+const getElapsedMinutes = (transcript: TranscriptTurn[]) =>
+  Math.round((Date.now() - transcript[0].startTime) / 60_000);
+
+const getResumeInstruction = (transcript: TranscriptTurn[], config: DeepResearchData) => `
+      Resumed Session:
+      The connection dropped in the middle of this interview and has been restored. The conversation so far:
+      ${getRecentTranscript(transcript)}
+
+      About ${getElapsedMinutes(transcript)} of the ${getDurationMinutes(config)} minutes have passed.
+
+      Do not introduce yourself again and do not repeat questions that were already answered.
+      Continue from exactly where the conversation left off.`;
+
+// Briefs the service taking over when the participant moves between voice and text
+const getModeSwitchInstruction = (transcript: TranscriptTurn[], config: DeepResearchData, mode: InterviewMode) => {
+  const channel = mode === InterviewMode.VOICE
+    ? 'from text chat to a voice call. Speak naturally and keep your turns short'
+    : 'from a voice call to text chat. Write short messages and do not describe sounds or tone of voice';
+  return `
+      Mode Switch:
+      This interview is already under way. The participant has switched ${channel}. The conversation so far:
+      ${getRecentTranscript(transcript)}
+
+      About ${getElapsedMinutes(transcript)} of the ${getDurationMinutes(config)} minutes have passed.
+
+      Do not introduce yourself again and do not repeat questions that were already answered.
+      Continue from exactly where the conversation left off.`;
+};
+
+interface LiveHandlers {
+  onAudioData: (base64Audio: string) => void;
+  onTranscript: (text: string, isUser: boolean) => void;
+  onClose: () => void;
+}
+
 export class GeminiLiveService {
-  private sessionPromise: Promise<any> | null = null;
+  private sessionPromise: Promise<LiveSession> | null = null;
   private config: DeepResearchData;
+  private provider: LlmProvider;
+  private handlers: LiveHandlers | null = null;
+  private options: LiveConnectionOptions | null = null;
+  // Bumped for every new session so late events from a dead one are ignored
+  private generation = 0;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private isClosing = false;
+  // Set by a barge-in: transcription of the abandoned turn that arrives late is dropped
+  private isInterrupted = false;
   
-  constructor(config: DeepResearchData) {
+  constructor(config: DeepResearchData, provider: LlmProvider = getLlmProvider()) {
     this.config = config;
+    this.provider = provider;
   }
 
+  /**
+   * Opens the live session. Without options a dropped connection ends the session;
+   * with options it is re-established automatically and briefed on the conversation so far.
+   */
   async connect(
     onAudioData: (base64Audio: string) => void,
     onTranscript: (text: string, isUser: boolean) => void,
-    onClose: () => void
+    onClose: () => void,
+    options?: LiveConnectionOptions
   ) {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    
-    this.sessionPromise = ai.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-      config: {
-        responseModalities: [Modality.AUDIO],
-        systemInstruction: getSystemInstruction(this.config),
-        speechConfig: {
-          voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-        },
-        inputAudioTranscription: {}, 
-        outputAudioTranscription: {},
-      },
-      callbacks: {
-        onopen: () => console.log("Gemini Live Connected"),
-        onmessage: (message: LiveServerMessage) => {
-          const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-          if (audioData) onAudioData(audioData);
-
-          if (message.serverContent?.outputTranscription?.text) {
-             onTranscript(message.serverContent.outputTranscription.text, false);
-          }
-          if (message.serverContent?.inputTranscription?.text) {
-            onTranscript(message.serverContent.inputTranscription.text, true);
-          }
-        },
-        onclose: () => {
-          console.log("Gemini Live Closed");
-          onClose();
-        },
-        onerror: (e) => {
-          console.error("Gemini Live Error", e);
-          onClose();
-        }
+    this.handlers = { onAudioData, onTranscript, onClose };
+    this.options = options ?? null;
+    this.isClosing = false;
+    this.reconnectAttempt = 0;
+    try {
+      const session = await this.open(false);
+      if (this.options?.isModeSwitch) {
+        // Let the interviewer speak first so the participant knows the switch worked
+        session.sendText(formatGuidance(['The participant just switched to voice. Briefly acknowledge it and continue.']), true);
       }
-    });
+      return session;
+    } catch (err) {
+      // A session that never opened is not retried; the caller reports the error
+      this.isClosing = true;
+      throw err;
+    }
+  }
 
+  private open(isResume: boolean): Promise<LiveSession> {
+    const generation = ++this.generation;
+    const isCurrent = () => generation === this.generation;
+    const transcript = this.options?.getTranscript() ?? [];
+    const systemInstruction = getSystemInstruction(this.config) +
+      (isResume && transcript.length > 0 ? getResumeInstruction(transcript, this.config)
+        : this.options?.isModeSwitch && transcript.length > 0 ? getModeSwitchInstruction(transcript, this.config, InterviewMode.VOICE)
+        : '');
+
+    this.isInterrupted = false;
+    this.sessionPromise = this.provider.connectLive(systemInstruction, {
+      onAudio: (data) => {
+        if (!isCurrent()) return;
+        // New audio after a barge-in belongs to the interviewer's next turn
+        this.isInterrupted = false;
+        this.handlers?.onAudioData(data);
+      },
+      onTranscript: (text, isUser) => {
+        if (!isCurrent()) return;
+        if (isUser) this.isInterrupted = false;
+        else if (this.isInterrupted) return;
+        this.handlers?.onTranscript(text, isUser);
+      },
+      onInterrupted: () => {
+        if (!isCurrent()) return;
+        this.isInterrupted = true;
+        this.options?.onInterrupted?.();
+      },
+      onTurnComplete: () => { if (isCurrent()) this.options?.onTurnComplete?.(); },
+      onClose: () => this.handleDrop(generation),
+      onError: () => this.handleDrop(generation),
+    }, { voice: this.config.voice, languageCode: getInterviewLanguage(this.config) });
     return this.sessionPromise;
   }
 
+  // Close and error events usually arrive together; only the first one for a session counts
+  private handleDrop(generation: number) {
+    if (generation !== this.generation) return;
+    this.generation++;
+    this.sessionPromise = null;
+
+    if (this.isClosing || !this.options) {
+      this.handlers?.onClose();
+      return;
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (!this.options) return;
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.options.onConnectionChange('lost', this.reconnectAttempt);
+      return;
+    }
+
+    const delay = RECONNECT_DELAYS_MS[this.reconnectAttempt++];
+    this.options.onConnectionChange('reconnecting', this.reconnectAttempt);
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      const attempt = this.open(true);
+      const generation = this.generation;
+      try {
+        const session = await attempt;
+        if (this.isClosing || generation !== this.generation) return;
+        this.reconnectAttempt = 0;
+        // Let the interviewer speak first so the participant knows they are back
+        session.sendText(formatGuidance(['The connection was restored. Briefly acknowledge the interruption and continue.']), true);
+        this.options?.onConnectionChange('connected', 0);
+      } catch (err) {
+        console.error("Reconnect attempt failed", err);
+        this.handleDrop(generation);
+      }
+    }, delay);
+  }
+
+  /**
+   * Starts a fresh round of reconnect attempts after the session was reported lost.
+   */
+  resume() {
+    if (this.isClosing || this.sessionPromise || this.reconnectTimer) return;
+    this.reconnectAttempt = 0;
+    this.scheduleReconnect();
+  }
+
   sendAudioChunk(base64Audio: string) {
     if (this.sessionPromise) {
-      this.sessionPromise.then((session) => {
-        session.sendRealtimeInput({
-          media: {
-            mimeType: "audio/pcm;rate=16000",
-            data: base64Audio
-          }
-        });
-      }).catch(err => console.error("Failed to send audio chunk", err));
+      this.sessionPromise
+        .then((session) => session.sendAudio(base64Audio))
+        .catch(err => console.error("Failed to send audio chunk", err));
+    }
+  }
+
+  // Silence is not streamed, so the end of speech has to be signalled explicitly
+  endAudioStream() {
+    if (this.sessionPromise) {
+      this.sessionPromise
+        .then((session) => session.endAudioStream())
+        .catch(err => console.error("Failed to end audio stream", err));
+    }
+  }
+
+  /**
+   * Adds guidance to the live context without ending the participant's turn,
+   * so the model takes it into account on its next response.
+   */
+  sendGuidance(note: string) {
+    if (this.sessionPromise) {
+      this.sessionPromise
+        .then((session) => session.sendText(formatGuidance([note]), false))
+        .catch(err => console.error("Failed to send guidance", err));
     }
   }
 
   async disconnect() {
+    this.isClosing = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.sessionPromise) {
-      const session = await this.sessionPromise;
-      if (session && typeof session.close === 'function') {
-        session.close();
-      }
+      const pending = this.sessionPromise;
       this.sessionPromise = null;
+      try {
+        (await pending).close();
+      } catch (err) {
+        console.error("Failed to close live session", err);
+      }
     }
   }
 }
 
-export const generateReport = async (apiKey: string, transcript: string, config: DeepResearchData): Promise<InterviewReport> => {
+const canvasItemSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    evidence: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          quote: { type: 'string' },
+          turnIndex: { type: 'integer' },
+        },
+        required: ["quote", "turnIndex"]
+      }
+    }
+  },
+  required: ["text", "evidence"]
+};
+
+const getCanvasSchema = (quadrants: CanvasQuadrant[]): JsonSchema => ({
+  type: 'object',
+  properties: Object.fromEntries(
+    quadrants.map((key): [string, JsonSchema] => [key, { type: 'array', items: canvasItemSchema }])
+  ),
+  required: quadrants
+});
+
+// Characters of turn text per analysis request. Longer interviews are analysed in windows.
+const TRANSCRIPT_WINDOW_CHARS = 40000;
+
+export const REPORT_SECTIONS: ReportSection[] = ['profile', 'canvas', 'insights', 'quality'];
+
+interface ReportInput {
+  turns: TranscriptTurn[]; // Conversation turns, already redacted when redaction is on
+  config: DeepResearchData;
+  context: string;
+  instruction?: string; // Researcher's steering when regenerating a single section
+}
+
+const getReportPreamble = ({ config, context }: ReportInput) => `
+    Challenge: "${config.challenge}"
+    Context (most relevant research passages):
+    "${context}"`;
+
+const getSteeringInstruction = ({ instruction }: ReportInput) =>
+  instruction?.trim() ? `RESEARCHER INSTRUCTION (follow it where it conflicts with the above): "${instruction.trim()}"` : '';
+
+// Profile and insights read the whole interview in one request. When it is too long, the
+// interviewer's turns go first, then the middle of what the participant said.
+const condenseTranscript = (turns: TranscriptTurn[]): string => {
+  const fits = (subset: TranscriptTurn[]) =>
+    subset.reduce((sum, turn) => sum + turn.text.length, 0) <= TRANSCRIPT_WINDOW_CHARS;
+  if (fits(turns)) return formatTranscript(turns);
+
+  const participantTurns = turns.filter(turn => turn.speaker === 'user');
+  if (fits(participantTurns)) return `(Interviewer turns omitted for length)\n${formatTranscript(participantTurns)}`;
+
+  const head = splitTranscript(participantTurns, TRANSCRIPT_WINDOW_CHARS / 2)[0].turns;
+  const tail = splitTranscript([...participantTurns].reverse(), TRANSCRIPT_WINDOW_CHARS / 2)[0].turns.reverse();
+  const omitted = participantTurns.length - head.length - tail.length;
+  return [
+    '(Interviewer turns omitted for length)',
+    formatTranscript(head),
+    `[... ${omitted} participant turns omitted for length ...]`,
+    formatTranscript(tail),
+  ].join('\n');
+};
+
+const generateProfile = async (input: ReportInput, provider: LlmProvider): Promise<Partial<InterviewReport>> => {
+  const prompt = `
+    Write a profile of the participant in this user research interview.
+    ${getReportPreamble(input)}
+
+    Transcript:
+    ${condenseTranscript(input.turns)}
+
+    INSTRUCTIONS:
+    1. Identify the interviewee's name. Use "Unknown" if they never gave it.
+    2. Write a rich biography: role, background and the circumstances relevant to the challenge.
+    3. LANGUAGE: ${getReportLanguageInstruction(input.config)}
+    ${getSteeringInstruction(input)}
+
+    Output MUST be valid JSON.
+  `;
+  return generateValidatedJson<Pick<InterviewReport, 'intervieweeName' | 'biography'>>(provider, {
+    name: 'reportProfile',
+    prompt,
+    tier: 'reasoning',
+    thinkingBudget: 1000,
+    maxOutputTokens: 2000,
+    schema: {
+      type: 'object',
+      properties: {
+        intervieweeName: { type: 'string' },
+        biography: { type: 'string' },
+      },
+      required: ["intervieweeName", "biography"]
+    }
+  });
+};
+
+// Fills all six quadrants, or only the given ones when a single quadrant is regenerated
+const generateCanvas = async (
+  input: ReportInput,
+  provider: LlmProvider,
+  quadrants: CanvasQuadrant[] = QUADRANT_KEYS
+): Promise<Pick<InterviewReport, 'canvas'>> => {
+  const { turns, config } = input;
+  const windows = splitTranscript(turns, TRANSCRIPT_WINDOW_CHARS);
+  const origin = turns[0]?.startTime ?? 0;
+
+  const canvases = await Promise.all(windows.map(async (window, i) => {
+    const part = windows.length > 1
+      ? `This is part ${i + 1} of ${windows.length} of a long interview; only use evidence from this part.`
+      : '';
+    const prompt = `
+    Extract the Empathy Canvas from this user research interview.
+    ${getReportPreamble(input)}
+
+    Transcript (each turn is prefixed with its [index] and (m:ss) offset from the start):
+    ${part}
+    ${formatNumberedTranscript(window.turns, window.firstIndex, origin)}
+
+    INSTRUCTIONS:
+    1. Fill ${quadrants.length === QUADRANT_KEYS.length ? 'the six quadrants' : 'only these quadrants'} (${quadrants.join(', ')}) with detailed points.
+    2. For EVERY canvas item, cite one or more verbatim quotes from the USER's turns together with
+       the [index] of the turn they come from. Copy quotes exactly; do not paraphrase inside a quote.
+       If an item is an inference without a direct quote, return an empty evidence list for it.
+    3. LANGUAGE: ${getReportLanguageInstruction(config)}
+    ${getSteeringInstruction(input)}
+
+    Output MUST be valid JSON.
+  `;
+    const canvas = await generateValidatedJson<EmpathyCanvas>(provider, {
+      name: 'reportCanvas',
+      prompt,
+      tier: 'reasoning',
+      // Reasoning budget allows the model to "think" before generating the JSON.
+      thinkingBudget: 4000,
+      maxOutputTokens: 8000,
+      schema: getCanvasSchema(quadrants)
+    });
+    const requested = Object.fromEntries(quadrants.map(key => [key, canvas[key]]));
+    return verifyCanvasEvidence({ ...createEmptyCanvas(), ...requested }, turns);
+  }));
+
+  return { canvas: mergeCanvases(canvases) };
+};
+
+const generateInsights = async (input: ReportInput, provider: LlmProvider): Promise<Partial<InterviewReport>> => {
+  const prompt = `
+    Conduct a deep analytical review of this user research interview.
+    ${getReportPreamble(input)}
+
+    Transcript:
+    ${condenseTranscript(input.turns)}
+
+    INSTRUCTIONS:
+    1. IMPORTANT: Provide 3 paragraphs of "Machine Insights". This should be deep, non-obvious psychological and behavioral analysis of the participant's motivations and frustrations.
+    2. LANGUAGE: ${getReportLanguageInstruction(input.config)}
+    ${getSteeringInstruction(input)}
+
+    Output MUST be valid JSON.
+  `;
+  return generateValidatedJson<Pick<InterviewReport, 'machineInsights'>>(provider, {
+    name: 'reportInsights',
+    prompt,
+    tier: 'reasoning',
+    thinkingBudget: 2000,
+    maxOutputTokens: 4000,
+    schema: {
+      type: 'object',
+      properties: {
+        machineInsights: { type: 'string' },
+      },
+      required: ["machineInsights"]
+    }
+  });
+};
+
+// The review needs every interviewer turn, so on long interviews the participant's replies are shortened instead
+const REVIEW_REPLY_CHARS = 300;
+
+const formatForReview = (turns: TranscriptTurn[]): string => {
+  const full = formatNumberedTranscript(turns);
+  if (full.length <= TRANSCRIPT_WINDOW_CHARS) return full;
+  const shortened = turns.map(turn => turn.speaker === 'user' && turn.text.length > REVIEW_REPLY_CHARS
+    ? { ...turn, text: `${turn.text.slice(0, REVIEW_REPLY_CHARS)}...` }
+    : turn);
+  return `(Participant replies shortened for length)\n${formatNumberedTranscript(shortened)}`;
+};
+
+const questionFlagSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      turnIndex: { type: 'integer' },
+      quote: { type: 'string' },
+      reason: { type: 'string' },
+      rewrite: { type: 'string' },
+    },
+    required: ['turnIndex', 'quote', 'reason', 'rewrite']
+  }
+};
+
+const clampScore = (score: number) => Math.min(100, Math.max(0, Math.round(score || 0)));
+
+// What the model returns; the counted measures are added afterwards
+type QualityResponse = Omit<InterviewQuality, 'questionCount' | 'interviewerTalkShare'>;
+
+/**
+ * Reviews the interviewer rather than the participant: leading and double-barreled
+ * questions, follow-up probes and how well it kept to the study's interview style.
+ */
+const generateQuality = async (input: ReportInput, provider: LlmProvider): Promise<Pick<InterviewReport, 'quality'>> => {
+  const { turns, config } = input;
+  const measured = measureInterviewer(turns);
+  const prompt = `
+    Review how well the AI interviewer conducted this user research interview. Judge the interviewer, not the participant.
+    Challenge: "${config.challenge}"
+    Intended interview style: ${config.style}. ${getStyleInstruction(config.style)}
+
+    Transcript (each turn is prefixed with its [index] and (m:ss) offset from the start):
+    ${formatForReview(turns)}
+
+    Counted from the transcript: the interviewer asked ${measured.questionCount} questions and wrote ${Math.round(measured.interviewerTalkShare * 100)}% of the words.
+
+    INSTRUCTIONS:
+    1. leadingQuestions: questions that suggest an answer, assume a fact or feeling the participant had not stated, or invite agreement
+       (e.g. "Isn't it frustrating when...?"). Quote each one verbatim from the INTERVIEWER's turn with the [index] of that turn,
+       explain why it leads, and give a neutral rewrite.
+    2. doubleBarreledQuestions: single questions that ask about two or more things at once. Same fields.
+    3. followUpProbes: how many of the interviewer's questions dug deeper into something the participant had just said.
+    4. styleAdherence: score 0-100 for how closely the interviewer kept to the intended style, with a one or two sentence comment.
+    5. score: 0-100 overall, as an experienced, non-directive researcher would judge it. summary: 2-3 sentences.
+    6. suggestions: up to 5 concrete changes to the interviewer's instructions that would have improved this session.
+    7. LANGUAGE: Write reasons, comments, the summary and suggestions in ${getLanguageName(getReportLanguage(config))}.
+       Keep quotes verbatim and write rewrites in ${getLanguageName(getInterviewLanguage(config))}, the language of the interview.
+    ${getSteeringInstruction(input)}
+
+    Output MUST be valid JSON.
+  `;
+  const review = await generateValidatedJson<QualityResponse>(provider, {
+    name: 'reportQuality',
+    prompt,
+    tier: 'reasoning',
+    thinkingBudget: 2000,
+    maxOutputTokens: 4000,
+    schema: {
+      type: 'object',
+      properties: {
+        score: { type: 'integer' },
+        summary: { type: 'string' },
+        leadingQuestions: questionFlagSchema,
+        doubleBarreledQuestions: questionFlagSchema,
+        followUpProbes: { type: 'integer' },
+        styleAdherence: {
+          type: 'object',
+          properties: {
+            score: { type: 'integer' },
+            comment: { type: 'string' },
+          },
+          required: ['score', 'comment']
+        },
+        suggestions: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['score', 'summary', 'leadingQuestions', 'doubleBarreledQuestions', 'followUpProbes', 'styleAdherence', 'suggestions']
+    }
+  });
+
+  return {
+    quality: {
+      ...review,
+      score: clampScore(review.score),
+      leadingQuestions: verifyQuestionFlags(review.leadingQuestions, turns),
+      doubleBarreledQuestions: verifyQuestionFlags(review.doubleBarreledQuestions, turns),
+      followUpProbes: Math.max(0, Math.round(review.followUpProbes || 0)),
+      styleAdherence: { ...review.styleAdherence, score: clampScore(review.styleAdherence.score) },
+      ...measured,
+    }
+  };
+};
+
+const SECTION_GENERATORS: Record<ReportSection, (input: ReportInput, provider: LlmProvider) => Promise<Partial<InterviewReport>>> = {
+  profile: generateProfile,
+  canvas: (input, provider) => generateCanvas(input, provider),
+  insights: generateInsights,
+  quality: generateQuality,
+};
+
+/**
+ * Generates the given sections side by side. A failed section does not affect the
+ * others; it is returned in `failed` so the report can show what succeeded.
+ */
+const generateSections = async (sections: ReportSection[], input: ReportInput, provider: LlmProvider) => {
+  const results = await Promise.allSettled(sections.map(section => SECTION_GENERATORS[section](input, provider)));
+  const failed: ReportSection[] = [];
+  const errors: string[] = [];
+  let patch: Partial<InterviewReport> = {};
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      patch = { ...patch, ...result.value };
+    } else {
+      console.error(`Error generating the ${sections[i]} section:`, result.reason);
+      failed.push(sections[i]);
+      errors.push(result.reason?.message || String(result.reason));
+    }
+  });
+  if (failed.length === sections.length) {
+    throw new Error(`Report generation failed. ${errors[0]}`);
+  }
+  return { patch, failed };
+};
+
+const getReportContext = (config: DeepResearchData, turns: TranscriptTurn[]) =>
+  selectRelevantContext(config, [config.challenge, ...turns.filter(t => t.speaker === 'user').map(t => t.text)].join('\n'), REPORT_CONTEXT_CHARS);
+
+export const generateReport = async (
+  transcript: TranscriptTurn[],
+  config: DeepResearchData,
+  provider: LlmProvider = getLlmProvider()
+): Promise<InterviewReport> => {
   console.log("Starting report generation...");
-  const client = new GoogleGenAI({ apiKey });
-  
+  // With redaction on, the model only sees the redacted transcript and the report is redacted too
+  const redactor = isRedactionEnabled(config.redaction) ? createTranscriptRedactor(transcript, config.redaction) : null;
+  const turns = getConversationTurns(redactor ? redactTranscript(transcript, redactor).turns : transcript);
+
+  const { patch, failed } = await generateSections(REPORT_SECTIONS, { turns, config, context: getReportContext(config, turns) }, provider);
+
+  // Sections that failed stay empty and are listed so the report view can offer a retry
+  const report: InterviewReport = {
+    intervieweeName: 'Unknown',
+    biography: '',
+    machineInsights: '',
+    canvas: createEmptyCanvas(),
+    ...patch,
+    transcript: turns,
+    language: getInterviewLanguage(config),
+    ...(failed.length > 0 ? { failedSections: failed } : {})
+  };
+  return redactor ? redactReport(report, redactor) : report;
+};
+
+/**
+ * Regenerates the sections of a partial report that failed, from the transcript stored
+ * with it (already redacted when redaction is on). Sections that fail again stay listed.
+ */
+export const retryReportSections = async (
+  report: InterviewReport,
+  config: DeepResearchData,
+  provider: LlmProvider = getLlmProvider()
+): Promise<InterviewReport> => {
+  const { failedSections = [], ...rest } = report;
+  if (failedSections.length === 0) return report;
+  console.log(`Retrying report sections: ${failedSections.join(', ')}`);
+
+  const input = { turns: report.transcript, config, context: getReportContext(config, report.transcript) };
+  const { patch, failed } = await generateSections(failedSections, input, provider);
+
+  return { ...rest, ...redactGeneratedPatch(report, patch, config), ...(failed.length > 0 ? { failedSections: failed } : {}) };
+};
+
+// Only freshly generated content is redacted; notes and researcher edits are left alone.
+// Names are learned from the patch too, since the stored report is already redacted.
+const redactGeneratedPatch = (report: InterviewReport, patch: Partial<InterviewReport>, config: DeepResearchData) =>
+  isRedactionEnabled(config.redaction) ? redactReportPatch(patch, createReportRedactor({ ...report, ...patch }, config.redaction)) : patch;
+
+const SECTION_FIELDS: Record<Exclude<RegenerableSection, CanvasQuadrant>, ReportTextField[]> = {
+  profile: ['intervieweeName', 'biography'],
+  insights: ['machineInsights'],
+  quality: [],
+};
+
+/**
+ * Regenerates one section of a finished report, optionally steered by the researcher.
+ * Regenerating a quadrant replaces only the model's points; points a researcher added
+ * or reworded are kept after the new ones.
+ */
+export const regenerateReportSection = async (
+  report: InterviewReport,
+  section: RegenerableSection,
+  config: DeepResearchData,
+  instruction = '',
+  provider: LlmProvider = getLlmProvider()
+): Promise<InterviewReport> => {
+  console.log(`Regenerating report section: ${section}`);
+  const input = { turns: report.transcript, config, context: getReportContext(config, report.transcript), instruction };
+
+  if (section === 'profile' || section === 'insights' || section === 'quality') {
+    const patch = redactGeneratedPatch(report, await SECTION_GENERATORS[section](input, provider), config);
+    const editedFields = (report.editedFields || []).filter(field => !SECTION_FIELDS[section].includes(field));
+    const failedSections = (report.failedSections || []).filter(failed => failed !== section);
+    return { ...report, ...patch, editedFields, failedSections };
+  }
+  const { canvas } = redactGeneratedPatch(report, await generateCanvas(input, provider, [section]), config);
+  const generated = canvas?.[section] ?? [];
+  const researcherItems = (report.canvas[section] ?? []).filter(item => item.origin === 'researcher');
+  return { ...report, canvas: { ...report.canvas, [section]: [...generated, ...researcherItems] } };
+};
+
+// Turns of recent conversation sent with each live canvas update
+const LIVE_CANVAS_WINDOW = 12;
+
+// Per-participant cap so a dozen interviews still fit comfortably in one request
+const SYNTHESIS_TRANSCRIPT_CHARS = 4000;
+
+// What the model returns; mention counts and participant checks are added afterwards
+interface SynthesisResponse {
+  overview: string;
+  themes: Omit<ThemeCluster, 'mentionCount'>[];
+  outliers: SynthesisReport['outliers'];
+}
+
+export const generateSynthesis = async (
+  reports: InterviewReport[],
+  config: DeepResearchData,
+  provider: LlmProvider = getLlmProvider()
+): Promise<SynthesisReport> => {
+  if (reports.length < 2) {
+    throw new Error("Synthesis needs at least two completed interview reports.");
+  }
+  console.log(`Starting synthesis across ${reports.length} reports...`);
+
+  // Interviewees can share a name (or all be "Unknown"), so label each one uniquely
+  const participantNames = reports.map((r, i) => {
+    const name = r.intervieweeName?.trim() || 'Participant';
+    const isDuplicate = reports.some((other, j) => j !== i && (other.intervieweeName?.trim() || 'Participant') === name);
+    return isDuplicate ? `${name} (#${i + 1})` : name;
+  });
+
+  const participantBlocks = reports.map((r, i) => {
+    const participantLines = r.transcript
+      .filter(turn => turn.speaker === 'user')
+      .map(turn => turn.text)
+      .join('\n')
+      .substring(0, SYNTHESIS_TRANSCRIPT_CHARS);
+    return `
+    === PARTICIPANT: ${participantNames[i]} ===
+    Biography: ${r.biography}
+    Empathy Canvas: ${JSON.stringify(Object.fromEntries(
+      QUADRANT_KEYS.map(key => [key, r.canvas[key].map(item => item.text)])
+    ))}
+    Participant statements:
+    ${participantLines}
+    `;
+  }).join('\n');
+
   const prompt = `
-    Conduct a deep analytical review of this interview transcript.
+    Synthesize the following ${reports.length} interviews conducted for the same research challenge.
     Challenge: "${config.challenge}"
-    Context: "${config.context.substring(0, 2000)}"
 
-    Transcript:
-    ${transcript}
+    ${participantBlocks}
 
     INSTRUCTIONS:
-    1. Identify the interviewee's name and create a rich biography.
-    2. Extract detailed evidence for the Empathy Canvas.
-    3. IMPORTANT: Provide 3 paragraphs of "Machine Insights". This should be deep, non-obvious psychological and behavioral analysis of the participant's motivations and frustrations.
-    
+    1. Cluster similar points across participants into themes, per Empathy Canvas quadrant
+       (thinkAndFeel, see, hear, sayAndDo, pains, gains).
+    2. For each theme list EXACTLY the participant labels (as written after "PARTICIPANT:") who expressed it.
+    3. Pick 1-3 representative verbatim quotes per theme from the participant statements.
+    4. List outlier views: notable perspectives held by a single participant that contradict or diverge from the majority.
+    5. Write a 2-paragraph overview of the strongest cross-participant patterns.
+    6. LANGUAGE: Interviews may have been held in different languages. Write themes, outliers and the overview in ${getLanguageName(getReportLanguage(config))}, but keep quotes verbatim in the language they were said in.
+
     Output MUST be valid JSON.
   `;
 
   try {
-    const response = await client.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        // Reasoning budget allows the model to "think" before generating the JSON.
-        thinkingConfig: { thinkingBudget: 4000 },
-        maxOutputTokens: 8000, 
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            intervieweeName: { type: Type.STRING },
-            biography: { type: Type.STRING },
-            machineInsights: { type: Type.STRING },
-            canvas: {
-              type: Type.OBJECT,
+    const data = await generateValidatedJson<SynthesisResponse>(provider, {
+      name: 'synthesis',
+      prompt,
+      tier: 'reasoning',
+      thinkingBudget: 4000,
+      maxOutputTokens: 12000,
+      schema: {
+        type: 'object',
+        properties: {
+          overview: { type: 'string' },
+          themes: {
+            type: 'array',
+            items: {
+              type: 'object',
               properties: {
-                thinkAndFeel: { type: Type.ARRAY, items: { type: Type.STRING } },
-                see: { type: Type.ARRAY, items: { type: Type.STRING } },
-                hear: { type: Type.ARRAY, items: { type: Type.STRING } },
-                sayAndDo: { type: Type.ARRAY, items: { type: Type.STRING } },
-                pains: { type: Type.ARRAY, items: { type: Type.STRING } },
-                gains: { type: Type.ARRAY, items: { type: Type.STRING } },
+                quadrant: { type: 'string', enum: QUADRANT_KEYS },
+                theme: { type: 'string' },
+                summary: { type: 'string' },
+                participants: { type: 'array', items: { type: 'string' } },
+                representativeQuotes: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      participant: { type: 'string' },
+                      quote: { type: 'string' },
+                    },
+                    required: ["participant", "quote"]
+                  }
+                }
               },
-              required: ["thinkAndFeel", "see", "hear", "sayAndDo", "pains", "gains"]
+              required: ["quadrant", "theme", "summary", "participants", "representativeQuotes"]
             }
           },
-          required: ["intervieweeName", "biography", "machineInsights", "canvas"]
-        }
+          outliers: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                participant: { type: 'string' },
+                quadrant: { type: 'string', enum: QUADRANT_KEYS },
+                view: { type: 'string' },
+              },
+              required: ["participant", "quadrant", "view"]
+            }
+          }
+        },
+        required: ["overview", "themes", "outliers"]
       }
     });
 
-    const text = response.text;
-    if (!text) {
-      throw new Error("Analysis model returned an empty response.");
-    }
+    // Mention counts are derived here rather than trusted from the model
+    const themes: ThemeCluster[] = (data.themes || []).map(theme => {
+      const participants = Array.from(new Set<string>(theme.participants || []))
+        .filter(name => participantNames.includes(name));
+      return { ...theme, participants, mentionCount: participants.length };
+    }).sort((a: ThemeCluster, b: ThemeCluster) => b.mentionCount - a.mentionCount);
 
-    const cleanText = cleanJson(text);
-    console.log("Cleaning and parsing JSON response...");
-    const data = JSON.parse(cleanText);
-    
     return {
-      ...data,
-      transcript: transcript
+      challenge: config.challenge,
+      participantNames,
+      overview: data.overview,
+      themes,
+      outliers: data.outliers || [],
+      generatedAt: Date.now(),
     };
   } catch (error) {
-    console.error("Error during report generation:", error);
+    console.error("Error during synthesis generation:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Incrementally updates the running canvas shown during the interview. Uses the fast
+ * model and only the most recent turns; the final report is still produced by generateReport.
+ */
+export const updateLiveCanvas = async (
+  config: DeepResearchData,
+  canvas: LiveCanvas,
+  transcript: TranscriptTurn[],
+  provider: LlmProvider = getLlmProvider()
+): Promise<LiveCanvas> => {
+  const turns = getConversationTurns(transcript);
+  const recentTurns = isRedactionEnabled(config.redaction)
+    ? redactTranscript(turns.slice(-LIVE_CANVAS_WINDOW), createTranscriptRedactor(turns, config.redaction)).turns
+    : turns.slice(-LIVE_CANVAS_WINDOW);
+
+  const prompt = `
+    You maintain a running Empathy Canvas while a user research interview is in progress.
+    Challenge: "${config.challenge}"
+
+    Current canvas:
+    ${JSON.stringify(canvas)}
+
+    Most recent turns:
+    ${formatTranscript(recentTurns)}
+
+    INSTRUCTIONS:
+    1. Return the complete updated canvas: keep existing points, add new evidence from the USER's recent turns.
+    2. Merge duplicates. Each point is a short phrase (max 12 words).
+    3. Only include what the participant actually expressed. Do not speculate.
+    4. Write the points in ${getLanguageName(getReportLanguage(config))}.
+  `;
+
+  const data = await generateValidatedJson<LiveCanvas>(provider, {
+    name: 'liveCanvas',
+    prompt,
+    tier: 'fast',
+    schema: {
+      type: 'object',
+      properties: Object.fromEntries(
+        QUADRANT_KEYS.map((key): [string, JsonSchema] => [key, { type: 'array', items: { type: 'string' } }])
+      ),
+      required: QUADRANT_KEYS
+    }
+  });
+
+  return Object.fromEntries(
+    QUADRANT_KEYS.map(key => [key, Array.isArray(data[key]) ? data[key] : canvas[key]])
+  ) as LiveCanvas;
+};
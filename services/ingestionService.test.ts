@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { extractDocument } from './ingestionService';
+
+interface ZipOptions {
+  method?: number;
+  data?: Uint8Array;
+  compressedSize?: number; // Overrides the size written to the central directory
+}
+
+// Builds a single-entry zip archive, with hooks for damaging it
+const makeZip = (name: string, { method = 0, data = new TextEncoder().encode('<w:document/>'), compressedSize = data.length }: ZipOptions = {}) => {
+  const nameBytes = new TextEncoder().encode(name);
+  const local = new DataView(new ArrayBuffer(30 + nameBytes.length));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, method, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, data.length, true);
+  local.setUint16(26, nameBytes.length, true);
+  new Uint8Array(local.buffer).set(nameBytes, 30);
+
+  const directoryOffset = local.byteLength + data.length;
+  const entry = new DataView(new ArrayBuffer(46 + nameBytes.length));
+  entry.setUint32(0, 0x02014b50, true);
+  entry.setUint16(10, method, true);
+  entry.setUint32(20, compressedSize, true);
+  entry.setUint32(24, data.length, true);
+  entry.setUint16(28, nameBytes.length, true);
+  entry.setUint32(42, 0, true);
+  new Uint8Array(entry.buffer).set(nameBytes, 46);
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, entry.byteLength, true);
+  end.setUint32(16, directoryOffset, true);
+
+  return new Uint8Array([...new Uint8Array(local.buffer), ...data, ...new Uint8Array(entry.buffer), ...new Uint8Array(end.buffer)]);
+};
+
+const docx = (bytes: Uint8Array) => new File([bytes], 'notes.docx');
+
+// Patches a little-endian 32-bit value in a copy of the archive
+const patch = (bytes: Uint8Array, offset: number, value: number) => {
+  const copy = bytes.slice();
+  new DataView(copy.buffer).setUint32(offset, value, true);
+  return copy;
+};
+
+describe('extractDocument (docx)', () => {
+  it('rejects an archive without the document entry', async () => {
+    await expect(extractDocument(docx(makeZip('word/other.xml')))).rejects.toThrow('"notes.docx" is not a valid Word document.');
+  });
+
+  it('rejects a file that is not a zip archive', async () => {
+    await expect(extractDocument(docx(new TextEncoder().encode('just some text')))).rejects.toThrow('it is not a zip archive or it is truncated');
+  });
+
+  it('rejects a truncated archive', async () => {
+    const zip = makeZip('word/document.xml');
+    await expect(extractDocument(docx(zip.slice(0, zip.length - 10)))).rejects.toThrow('not a zip archive or it is truncated');
+  });
+
+  it('rejects a central directory that points outside the file', async () => {
+    const zip = makeZip('word/document.xml');
+    await expect(extractDocument(docx(patch(zip, zip.length - 6, 1_000_000)))).rejects.toThrow('the file list is damaged');
+  });
+
+  it('rejects an entry whose data runs past the end of the file', async () => {
+    const zip = makeZip('word/document.xml', { compressedSize: 1_000_000 });
+    await expect(extractDocument(docx(zip))).rejects.toThrow('the entry for word/document.xml is truncated');
+  });
+
+  it('rejects a local header with the wrong signature', async () => {
+    await expect(extractDocument(docx(patch(makeZip('word/document.xml'), 0, 0)))).rejects.toThrow('the entry for word/document.xml is damaged');
+  });
+
+  it('rejects unsupported compression methods', async () => {
+    await expect(extractDocument(docx(makeZip('word/document.xml', { method: 12 })))).rejects.toThrow('compression method 12 is not supported');
+  });
+
+  it('rejects ZIP64 archives', async () => {
+    const zip = makeZip('word/document.xml');
+    await expect(extractDocument(docx(patch(zip, zip.length - 6, 0xffffffff)))).rejects.toThrow('ZIP64 archives are not supported');
+  });
+
+  it('rejects deflated data that does not decompress', async () => {
+    const zip = makeZip('word/document.xml', { method: 8, data: new Uint8Array([0xff, 0xff, 0xff, 0xff]) });
+    await expect(extractDocument(docx(zip))).rejects.toThrow('"notes.docx" is corrupt or not a supported Word document: the entry for word/document.xml could not be decompressed.');
+  });
+});
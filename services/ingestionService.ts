@@ -0,0 +1,205 @@
+import { ContextDocument, ContextDocumentKind } from "../types";
+import { generateId } from "./campaignService";
+// Bundled with the app, so PDF import works offline and no third-party script runs next to transcripts
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+export const SUPPORTED_CONTEXT_FILES = '.pdf,.docx,.html,.htm,.csv,.txt,.md,.json';
+
+const KIND_BY_EXTENSION: Record<string, ContextDocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  html: 'html',
+  htm: 'html',
+  csv: 'csv',
+  txt: 'text',
+  md: 'text',
+  json: 'text',
+};
+
+/**
+ * Normalises extracted text: unified line endings, words re-joined across PDF line
+ * breaks ("onboard-\ning"), trailing spaces and runs of blank lines removed.
+ */
+const cleanText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00a0/g, ' ')
+    .replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const extractPdf = async (file: File): Promise<string[]> => {
+  // Loaded on demand; the library is large and most studies never import a PDF
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const content = await (await pdf.getPage(number)).getTextContent();
+    pages.push(content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '').join(''));
+  }
+  await pdf.destroy();
+  return pages;
+};
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP64_MARKER = 0xffffffff;
+
+/**
+ * Reads one file out of a zip archive using the central directory.
+ * Enough for .docx, which only uses stored and deflated entries. Every offset is
+ * checked against the buffer, so a damaged archive throws a readable error.
+ */
+const readZipEntry = async (buffer: ArrayBuffer, path: string): Promise<string | null> => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const check = (condition: boolean, problem: string) => {
+    if (!condition) throw new Error(problem);
+  };
+  const inBounds = (offset: number, length: number) => offset >= 0 && offset + length <= buffer.byteLength;
+
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  check(end !== -1, 'it is not a zip archive or it is truncated');
+
+  const entries = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  check(entries !== 0xffff && offset !== ZIP64_MARKER, 'ZIP64 archives are not supported');
+
+  for (let n = 0; n < entries; n++) {
+    check(inBounds(offset, 46) && view.getUint32(offset, true) === ZIP_DIRECTORY_ENTRY, 'the file list is damaged');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    check(inBounds(offset + 46, nameLength), 'the file list is damaged');
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === path) {
+      check(compressedSize !== ZIP64_MARKER && localHeader !== ZIP64_MARKER, 'ZIP64 archives are not supported');
+      check(method === 0 || method === 8, `compression method ${method} is not supported`);
+      check(inBounds(localHeader, 30) && view.getUint32(localHeader, true) === ZIP_LOCAL_HEADER, `the entry for ${path} is damaged`);
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      check(inBounds(dataStart, compressedSize), `the entry for ${path} is truncated`);
+
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return decoder.decode(data);
+      try {
+        const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        return await new Response(stream).text();
+      } catch {
+        throw new Error(`the entry for ${path} could not be decompressed`);
+      }
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const extractDocx = async (file: File): Promise<string> => {
+  let xml: string | null;
+  try {
+    xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+  } catch (err: any) {
+    throw new Error(`"${file.name}" is corrupt or not a supported Word document: ${err.message}.`);
+  }
+  if (!xml) throw new Error(`"${file.name}" is not a valid Word document.`);
+
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  return Array.from(doc.getElementsByTagName('w:p'))
+    .map(paragraph => Array.from(paragraph.getElementsByTagName('*'))
+      .map(node => node.tagName === 'w:t' ? node.textContent : node.tagName === 'w:tab' ? '\t' : node.tagName === 'w:br' ? '\n' : '')
+      .join(''))
+    .join('\n');
+};
+
+const BLOCK_ELEMENTS = 'p,div,section,article,li,h1,h2,h3,h4,h5,h6,tr,blockquote,pre,br';
+
+const extractHtml = async (file: File): Promise<string> => {
+  const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+  doc.querySelectorAll('script,style,noscript,nav,footer,svg,template').forEach(el => el.remove());
+  // Detached documents have no layout, so line breaks have to be added by hand
+  doc.body.querySelectorAll(BLOCK_ELEMENTS).forEach(el => el.append('\n'));
+  doc.body.querySelectorAll('td,th').forEach(el => el.append('\t'));
+  return doc.body.textContent || '';
+};
+
+// RFC 4180-style: quoted fields may contain commas, quotes ("") and line breaks
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { row.push(field); field = ''; }
+    else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += char;
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+// Each row becomes "Header: value; Header: value" so a passage still makes sense on its own
+const extractCsv = async (file: File): Promise<string> => {
+  const [header, ...rows] = parseCsv(await file.text());
+  if (!header) return '';
+  return rows
+    .map(row => row.map((cell, i) => cell.trim() && `${header[i]?.trim() || `Column ${i + 1}`}: ${cell.trim()}`).filter(Boolean).join('; '))
+    .join('\n\n');
+};
+
+/**
+ * Converts an uploaded file into clean text for the context library.
+ */
+export const extractDocument = async (file: File): Promise<ContextDocument> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+  const kind = KIND_BY_EXTENSION[extension];
+  if (!kind) {
+    throw new Error(`"${file.name}" is not a supported format. Use PDF, DOCX, HTML, CSV or plain text.`);
+  }
+
+  let pages: string[];
+  try {
+    switch (kind) {
+      case 'pdf': pages = await extractPdf(file); break;
+      case 'docx': pages = [await extractDocx(file)]; break;
+      case 'html': pages = [await extractHtml(file)]; break;
+      case 'csv': pages = [await extractCsv(file)]; break;
+      default: pages = [await file.text()];
+    }
+  } catch (err: any) {
+    console.error(`Failed to extract ${file.name}`, err);
+    throw new Error(err.message?.startsWith(`"${file.name}"`) ? err.message : `Could not read "${file.name}".`);
+  }
+
+  pages = pages.map(cleanText);
+  if (pages.every(page => !page)) {
+    // Typically a scanned PDF: pages are images with no text layer
+    throw new Error(`No text found in "${file.name}". Scanned documents need OCR first.`);
+  }
+  return { id: generateId(6), name: file.name, kind, pages, addedAt: Date.now() };
+};
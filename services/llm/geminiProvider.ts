@@ -0,0 +1,147 @@
+import { GoogleGenAI, LiveServerMessage, Modality, Schema, Type } from "@google/genai";
+import { ChatSession, JsonSchema, LiveCallbacks, LiveOptions, LiveSession, LlmProvider, ModelTier, StructuredRequest } from "./types";
+
+export const GEMINI_MODELS: Record<ModelTier, string> = {
+  fast: 'gemini-3-flash-preview',
+  reasoning: 'gemini-3-pro-preview',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+};
+
+// Native-audio models pick the spoken language from the system instruction and reject a speech
+// language code; only half-cascade live models take one
+const isNativeAudioModel = (model: string) => model.includes('native-audio');
+
+// Prebuilt Live API voices. All of them speak every supported language.
+export const GEMINI_VOICES: { name: string; tone: string }[] = [
+  { name: 'Zephyr', tone: 'Bright' },
+  { name: 'Puck', tone: 'Upbeat' },
+  { name: 'Charon', tone: 'Informative' },
+  { name: 'Kore', tone: 'Firm' },
+  { name: 'Fenrir', tone: 'Excitable' },
+  { name: 'Leda', tone: 'Youthful' },
+  { name: 'Orus', tone: 'Firm' },
+  { name: 'Aoede', tone: 'Breezy' },
+];
+
+export const DEFAULT_GEMINI_VOICE = 'Zephyr';
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.enum && { enum: schema.enum }),
+});
+
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini';
+  private apiKey: string;
+  private models: Record<ModelTier, string>;
+
+  constructor(apiKey: string, models: Record<ModelTier, string> = GEMINI_MODELS) {
+    this.apiKey = apiKey;
+    this.models = models;
+  }
+
+  get isConfigured() {
+    return Boolean(this.apiKey);
+  }
+
+  private client() {
+    return new GoogleGenAI({ apiKey: this.apiKey });
+  }
+
+  createChat(systemInstruction: string, _name?: string): ChatSession {
+    const chat = this.client().chats.create({
+      model: this.models.fast,
+      config: { systemInstruction },
+    });
+    return {
+      send: async (message) => (await chat.sendMessage({ message })).text || '',
+      sendStream: async (message, onChunk) => {
+        const result = await chat.sendMessageStream({ message });
+        for await (const chunk of result) {
+          if (chunk.text) onChunk(chunk.text);
+        }
+      },
+    };
+  }
+
+  async generateJson(request: StructuredRequest): Promise<string> {
+    const response = await this.client().models.generateContent({
+      model: this.models[request.tier],
+      contents: request.prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema),
+        // Reasoning budget allows the model to "think" before generating the JSON.
+        ...(request.thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget: request.thinkingBudget } }),
+        ...(request.maxOutputTokens !== undefined && { maxOutputTokens: request.maxOutputTokens }),
+      },
+    });
+    return response.text || '';
+  }
+
+  async connectLive(systemInstruction: string, callbacks: LiveCallbacks, options: LiveOptions = {}): Promise<LiveSession> {
+    const session = await this.client().live.connect({
+      model: this.models.live,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        systemInstruction,
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice || DEFAULT_GEMINI_VOICE } },
+          ...(options.languageCode && !isNativeAudioModel(this.models.live) && { languageCode: options.languageCode }),
+        },
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+      },
+      callbacks: {
+        onopen: () => console.log("Gemini Live Connected"),
+        onmessage: (message: LiveServerMessage) => {
+          const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (audioData) callbacks.onAudio(audioData);
+
+          if (message.serverContent?.outputTranscription?.text) {
+            callbacks.onTranscript(message.serverContent.outputTranscription.text, false);
+          }
+          if (message.serverContent?.inputTranscription?.text) {
+            callbacks.onTranscript(message.serverContent.inputTranscription.text, true);
+          }
+          if (message.serverContent?.interrupted) callbacks.onInterrupted();
+          if (message.serverContent?.turnComplete) callbacks.onTurnComplete();
+        },
+        onclose: () => {
+          console.log("Gemini Live Closed");
+          callbacks.onClose();
+        },
+        onerror: (e) => {
+          console.error("Gemini Live Error", e);
+          callbacks.onError(e);
+        },
+      },
+    });
+
+    return {
+      sendAudio: (base64Pcm) => session.sendRealtimeInput({
+        media: { mimeType: "audio/pcm;rate=16000", data: base64Pcm },
+      }),
+      endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+      sendText: (text, turnComplete) => session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text }] }],
+        turnComplete,
+      }),
+      close: () => session.close(),
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { GeminiProvider } from "./geminiProvider";
+import { MockProvider } from "./mockProvider";
+import { LlmProvider } from "./types";
+
+export * from "./types";
+export { GeminiProvider, GEMINI_MODELS, GEMINI_VOICES, DEFAULT_GEMINI_VOICE } from "./geminiProvider";
+export { MockProvider } from "./mockProvider";
+export { generateValidatedJson, parseStructuredOutput, validateJson } from "./structuredOutput";
+export type { StructuredResult } from "./structuredOutput";
+export { DEFAULT_MOCK_SCRIPT } from "./mockScript";
+export type { MockScript, ScriptedLine } from "./mockScript";
+
+let provider: LlmProvider | null = null;
+
+/**
+ * The provider used across the app. Chosen at build time with LLM_PROVIDER
+ * ('gemini' by default, or 'mock' for offline development).
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (!provider) {
+    provider = process.env.LLM_PROVIDER === 'mock'
+      ? new MockProvider()
+      : new GeminiProvider(process.env.API_KEY || '');
+  }
+  return provider;
+};
+
+// Swaps the provider, e.g. to inject a MockProvider with a custom script in tests
+export const setLlmProvider = (next: LlmProvider) => {
+  provider = next;
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { DeepResearchData, InterviewMode, InterviewStyle, Persona, PersonaGuardedness, PersonaVerbosity, RedactionMode } from '../../types';
+import { generateReport, regenerateReportSection, retryReportSections } from '../geminiService';
+import { runSimulatedInterview } from '../personaService';
+import { DEFAULT_MOCK_SCRIPT } from './mockScript';
+import { MockProvider } from './mockProvider';
+
+const config: DeepResearchData = {
+  challenge: 'How do small clinics manage appointment scheduling?',
+  context: '',
+  style: InterviewStyle.INDIRECT,
+  mode: InterviewMode.TEXT,
+};
+
+const persona: Persona = {
+  id: 'persona-1',
+  name: 'Clinic manager',
+  background: 'Runs operations at a physiotherapy clinic.',
+  attitudes: 'Tired of rescheduling by phone.',
+  verbosity: PersonaVerbosity.BALANCED,
+  guardedness: PersonaGuardedness.OPEN,
+};
+
+const interview = (provider: MockProvider) => runSimulatedInterview(config, persona, { maxExchanges: 5, provider });
+
+describe('MockProvider', () => {
+  it('plays a scripted text interview between the interviewer and a synthetic participant', async () => {
+    const transcript = await interview(new MockProvider(DEFAULT_MOCK_SCRIPT, 0));
+    expect(transcript).toHaveLength(11);
+    expect(transcript.map(turn => turn.speaker)).toEqual(['model', 'user', 'model', 'user', 'model', 'user', 'model', 'user', 'model', 'user', 'model']);
+    expect(transcript[1].text).toBe("Sure, I'm Alex Rivera. I run operations at a small physiotherapy clinic.");
+    expect(transcript.every(turn => turn.mode === InterviewMode.TEXT && !turn.partial)).toBe(true);
+  });
+
+  it('replays the live conversation and records text sent to the session', async () => {
+    const provider = new MockProvider(DEFAULT_MOCK_SCRIPT, 0);
+    const heard: [string, boolean][] = [];
+    let closed = false;
+    const session = await provider.connectLive('', {
+      onAudio: () => {},
+      onTranscript: (text, isUser) => heard.push([text, isUser]),
+      onInterrupted: () => {},
+      onTurnComplete: () => {},
+      onClose: () => { closed = true; },
+      onError: () => {},
+    });
+    session.sendText('Guidance: ask about Mondays.', true);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    session.close();
+
+    expect(provider.liveTexts).toEqual(['Guidance: ask about Mondays.']);
+    expect(heard).toHaveLength(DEFAULT_MOCK_SCRIPT.liveConversation.length);
+    expect(heard[1]).toEqual([DEFAULT_MOCK_SCRIPT.liveConversation[1].text, true]);
+    expect(closed).toBe(true);
+  });
+
+  it('generates a full report from the scripted interview', async () => {
+    const provider = new MockProvider(DEFAULT_MOCK_SCRIPT, 0);
+    const report = await generateReport(await interview(provider), config, provider);
+
+    expect(report.intervieweeName).toBe('Alex Rivera');
+    expect(report.failedSections).toBeUndefined();
+    expect(report.canvas.pains[0].text).toBe('Firefighting leaves no time for planning');
+    // Every canned quote appears in the participant's answers
+    expect(Object.values(report.canvas).flat().every(item => item.verified)).toBe(true);
+    // The canned leading question was not asked in this interview, so it is dropped
+    expect(report.quality?.leadingQuestions).toEqual([]);
+    expect(report.quality?.doubleBarreledQuestions.map(flag => flag.turnIndex)).toEqual([0]);
+    expect(report.quality?.questionCount).toBe(6);
+  });
+
+  it('lists a section that failed and fills it in on retry', async () => {
+    let insightCalls = 0;
+    const provider = new MockProvider({
+      ...DEFAULT_MOCK_SCRIPT,
+      structured: {
+        ...DEFAULT_MOCK_SCRIPT.structured,
+        reportInsights: [() => {
+          if (++insightCalls === 1) throw new Error('Model unavailable');
+          return { machineInsights: 'Planning is the work Alex never reaches.' };
+        }],
+      },
+    }, 0);
+
+    const partial = await generateReport(await interview(provider), config, provider);
+    expect(partial.failedSections).toEqual(['insights']);
+    expect(partial.machineInsights).toBe('');
+
+    const retried = await retryReportSections(partial, config, provider);
+    expect(retried.failedSections).toBeUndefined();
+    expect(retried.machineInsights).toBe('Planning is the work Alex never reaches.');
+  });
+
+  it('redacts a regenerated section without touching the notes', async () => {
+    const provider = new MockProvider(DEFAULT_MOCK_SCRIPT, 0);
+    const redacted = { ...config, redaction: { mode: RedactionMode.MASK, customTerms: [] } };
+    const report = await generateReport(await interview(provider), redacted, provider);
+    expect(report.intervieweeName).toBe('[Person]');
+
+    const notes = 'Alex asked us to follow up in March.';
+    const regenerated = await regenerateReportSection({ ...report, notes }, 'profile', redacted, '', provider);
+    expect(regenerated.intervieweeName).toBe('[Person]');
+    expect(regenerated.biography).not.toContain('Alex');
+    expect(regenerated.notes).toBe(notes);
+  });
+});
@@ -0,0 +1,85 @@
+import { ChatSession, LiveCallbacks, LiveSession, LlmProvider, StructuredRequest } from "./types";
+import { DEFAULT_MOCK_SCRIPT, MockScript, sampleFromSchema } from "./mockScript";
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Returns responses in order and keeps repeating the last one
+const replay = <T>(responses: T[]) => {
+  let index = 0;
+  return (): T | undefined => responses[Math.min(index++, responses.length - 1)];
+};
+
+/**
+ * Offline provider that replays a scripted interview. Needs no API key or network,
+ * so the UI can be developed and exercised end to end. Set latencyMs to 0 in tests.
+ */
+export class MockProvider implements LlmProvider {
+  readonly id = 'mock';
+  readonly isConfigured = true;
+  private script: MockScript;
+  private latencyMs: number;
+  private structured = new Map<string, () => unknown>();
+  readonly liveTexts: string[] = []; // Everything sent to live sessions with sendText, for tests to inspect
+
+  constructor(script: MockScript = DEFAULT_MOCK_SCRIPT, latencyMs = 400) {
+    this.script = script;
+    this.latencyMs = latencyMs;
+  }
+
+  createChat(_systemInstruction: string, name = 'interviewer'): ChatSession {
+    const nextReply = replay(this.script.chatReplies[name] || []);
+    const latency = this.latencyMs;
+    return {
+      send: async () => {
+        await wait(latency);
+        return nextReply() ?? '';
+      },
+      sendStream: async (_message, onChunk) => {
+        await wait(latency);
+        // Stream word by word, like a real model
+        for (const word of (nextReply() ?? '').split(/(?<= )/)) {
+          onChunk(word);
+          await wait(latency / 10);
+        }
+      },
+    };
+  }
+
+  async generateJson(request: StructuredRequest): Promise<string> {
+    await wait(this.latencyMs);
+    if (!this.structured.has(request.name)) {
+      this.structured.set(request.name, replay(this.script.structured[request.name] || []));
+    }
+    const canned = this.structured.get(request.name)!();
+    const value = canned === undefined
+      ? sampleFromSchema(request.schema)
+      : typeof canned === 'function' ? canned(request.prompt) : canned;
+    return JSON.stringify(value);
+  }
+
+  async connectLive(_systemInstruction: string, callbacks: LiveCallbacks): Promise<LiveSession> {
+    await wait(this.latencyMs);
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    let closed = false;
+
+    // Space lines out so the transcript fills in at a readable pace
+    this.script.liveConversation.forEach((line, i) => {
+      timers.push(setTimeout(() => {
+        callbacks.onTranscript(line.text, line.speaker === 'user');
+        if (line.speaker === 'model') callbacks.onTurnComplete();
+      }, (i + 1) * this.latencyMs * 5));
+    });
+
+    return {
+      sendAudio: () => {},
+      endAudioStream: () => {},
+      sendText: (text) => { this.liveTexts.push(text); },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(clearTimeout);
+        callbacks.onClose();
+      },
+    };
+  }
+}
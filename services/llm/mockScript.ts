@@ -0,0 +1,153 @@
+import { JsonSchema } from "./types";
+
+export interface ScriptedLine {
+  speaker: 'model' | 'user';
+  text: string;
+}
+
+// A canned response is either fixed JSON or built from the prompt, for tasks whose
+// output must echo the input (e.g. participant labels in a synthesis)
+export type CannedResponse = unknown | ((prompt: string) => unknown);
+
+export interface MockScript {
+  chatReplies: Record<string, string[]>; // Keyed by chat name, replayed in order; the last one repeats
+  liveConversation: ScriptedLine[]; // Replayed line by line once a voice session opens
+  structured: Record<string, CannedResponse[]>; // Keyed by StructuredRequest.name, replayed in order
+}
+
+const LIVE_CONVERSATION: ScriptedLine[] = [
+  { speaker: 'model', text: "Hi, I'm the interviewer for this study. Thanks for joining! Could you tell me your name and a bit about your role?" },
+  { speaker: 'user', text: "Sure, I'm Alex Rivera. I run operations at a small physiotherapy clinic." },
+  { speaker: 'model', text: "Thanks, Alex. Walk me through a typical Monday morning at the clinic." },
+  { speaker: 'user', text: "Honestly it starts with the phone. Patients call to move appointments and I'm juggling the calendar while the front desk is slammed." },
+  { speaker: 'model', text: "That sounds hectic. How does that feel while it's happening?" },
+  { speaker: 'user', text: "Stressful. I feel like I'm always one double booking away from an angry patient." },
+  { speaker: 'model', text: "What do you hear from your colleagues about scheduling?" },
+  { speaker: 'user', text: "The therapists keep telling me the gaps between sessions are too short to write notes." },
+  { speaker: 'model', text: "If the scheduling worked perfectly, what would change for you?" },
+  { speaker: 'user', text: "I'd finally have time to look at the numbers and plan, instead of firefighting all day." },
+];
+
+const item = (text: string, quote: string, turnIndex: number) => ({ text, evidence: [{ quote, turnIndex }] });
+
+const REPORT = {
+  intervieweeName: 'Alex Rivera',
+  biography: 'Alex runs operations at a small physiotherapy clinic and owns the appointment calendar alongside a busy front desk.',
+  machineInsights: [
+    'Alex frames their job as defence: the goal of a good day is that nothing goes wrong, rather than that something improves.',
+    'The stress is anticipatory. The fear of a double booking weighs more than the bookings themselves, which suggests visibility would relieve more than automation.',
+    'Planning is the work Alex values but never reaches. Any solution that frees time should make that time visibly available for planning.',
+  ].join('\n\n'),
+  canvas: {
+    thinkAndFeel: [item('Constant fear of double booking', "I feel like I'm always one double booking away from an angry patient", 5)],
+    see: [item('A front desk that is overloaded on Mondays', 'the front desk is slammed', 3)],
+    hear: [item('Therapists complain about short gaps between sessions', 'the gaps between sessions are too short to write notes', 7)],
+    sayAndDo: [item('Reschedules appointments by phone', 'Patients call to move appointments', 3)],
+    pains: [item('Firefighting leaves no time for planning', 'instead of firefighting all day', 9)],
+    gains: [item('Time to analyse numbers and plan ahead', "I'd finally have time to look at the numbers and plan", 9)],
+  },
+};
+
+// The counted measures are added by the app, so only the model's judgement is canned
+const QUALITY = {
+  score: 78,
+  summary: 'The interviewer kept turns short and followed up on what Alex said. One question put a feeling into the participant\'s mouth before asking about it.',
+  leadingQuestions: [{
+    turnIndex: 4,
+    quote: "That sounds hectic. How does that feel while it's happening?",
+    reason: 'Calls the situation hectic before asking how it feels, which invites agreement.',
+    rewrite: 'What is going through your mind while that is happening?',
+  }],
+  doubleBarreledQuestions: [{
+    turnIndex: 0,
+    quote: 'Could you tell me your name and a bit about your role?',
+    reason: 'Asks for the name and the role at once; harmless in an introduction, but the role answer tends to be short.',
+    rewrite: 'Could you tell me your name? ... And what does your role involve?',
+  }],
+  followUpProbes: 2,
+  styleAdherence: { score: 70, comment: 'Mostly conversational, but the questions about colleagues and the ideal future were asked directly rather than drawn out.' },
+  suggestions: [
+    'Ask how something feels without describing it first.',
+    'Before moving to a new canvas area, ask for a concrete recent example of the current one.',
+  ],
+};
+
+const LIVE_CANVAS_SNAPSHOTS = [
+  { thinkAndFeel: [], see: [], hear: [], sayAndDo: ['Runs clinic operations'], pains: [], gains: [] },
+  { thinkAndFeel: [], see: ['Front desk slammed on Mondays'], hear: [], sayAndDo: ['Runs clinic operations', 'Reschedules by phone'], pains: ['Juggling calendar and calls'], gains: [] },
+  { thinkAndFeel: ['Fears double bookings'], see: ['Front desk slammed on Mondays'], hear: [], sayAndDo: ['Runs clinic operations', 'Reschedules by phone'], pains: ['Juggling calendar and calls', 'Angry patients'], gains: [] },
+  { thinkAndFeel: ['Fears double bookings'], see: ['Front desk slammed on Mondays'], hear: ['Therapists: gaps too short for notes'], sayAndDo: ['Runs clinic operations', 'Reschedules by phone'], pains: ['Juggling calendar and calls', 'Angry patients'], gains: [] },
+  { thinkAndFeel: ['Fears double bookings', 'Wants to plan, not firefight'], see: ['Front desk slammed on Mondays'], hear: ['Therapists: gaps too short for notes'], sayAndDo: ['Runs clinic operations', 'Reschedules by phone'], pains: ['Juggling calendar and calls', 'Angry patients', 'No time for planning'], gains: ['Time to review numbers'] },
+];
+
+// Echoes the participant labels from the prompt so the synthesis survives label checks
+const synthesisFromPrompt = (prompt: string) => {
+  const participants = Array.from(prompt.matchAll(/=== PARTICIPANT: (.+) ===/g), m => m[1]);
+  return {
+    overview: 'Every participant describes scheduling as reactive work that crowds out planning.\n\nThe strongest shared pain is the fear of visible mistakes in front of patients.',
+    themes: [
+      {
+        quadrant: 'pains',
+        theme: 'Firefighting crowds out planning',
+        summary: 'Rescheduling by phone consumes the time meant for planning.',
+        participants,
+        representativeQuotes: participants.slice(0, 2).map(participant => ({ participant, quote: 'instead of firefighting all day' })),
+      },
+      {
+        quadrant: 'thinkAndFeel',
+        theme: 'Anxiety about double bookings',
+        summary: 'Participants anticipate errors more than they experience them.',
+        participants: participants.slice(0, 1),
+        representativeQuotes: participants.slice(0, 1).map(participant => ({ participant, quote: "I'm always one double booking away from an angry patient" })),
+      },
+    ],
+    outliers: participants.length > 1
+      ? [{ participant: participants[participants.length - 1], quadrant: 'gains', view: 'Would rather keep manual control than automate scheduling.' }]
+      : [],
+  };
+};
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  chatReplies: {
+    interviewer: [
+      "Hi, I'm the interviewer for this study. Thanks for joining! Could you tell me your name and a bit about your role?",
+      "Thanks for sharing that. Walk me through the last time this came up. What happened, step by step?",
+      "That sounds frustrating. How did it make you feel in the moment?",
+      "What do the people around you say about it?",
+      "If this worked perfectly tomorrow, what would be different for you?",
+      "This has been really helpful. Is there anything else you'd like to add?",
+    ],
+    participant: LIVE_CONVERSATION.filter(line => line.speaker === 'user').map(line => line.text),
+  },
+  liveConversation: LIVE_CONVERSATION,
+  structured: {
+    reportProfile: [{ intervieweeName: REPORT.intervieweeName, biography: REPORT.biography }],
+    reportCanvas: [REPORT.canvas],
+    reportInsights: [{ machineInsights: REPORT.machineInsights }],
+    reportQuality: [QUALITY],
+    liveCanvas: LIVE_CANVAS_SNAPSHOTS,
+    synthesis: [synthesisFromPrompt],
+  },
+};
+
+/**
+ * Builds a minimal valid value for a schema, used when the script has no canned
+ * response for a request. Deterministic so tests can rely on it.
+ */
+export const sampleFromSchema = (schema: JsonSchema, key = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, value]) => [name, sampleFromSchema(value, name)])
+      );
+    case 'array':
+      return schema.items ? [sampleFromSchema(schema.items, key)] : [];
+    case 'string':
+      return schema.enum?.[0] ?? `Mock ${key}`;
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+  }
+};
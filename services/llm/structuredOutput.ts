@@ -0,0 +1,123 @@
+import { JsonSchema, LlmProvider, StructuredRequest } from "./types";
+
+// Attempts per request, including the first; every retry carries a repair prompt
+const STRUCTURED_ATTEMPTS = 3;
+
+// How much of a rejected response is quoted back to the model when asking for a repair
+const REPAIR_EXCERPT_CHARS = 1500;
+
+export type StructuredResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; problem: string; truncated: boolean };
+
+// Models sometimes wrap JSON in code fences or put a sentence in front of it
+const extractJson = (text: string): string => {
+  const unfenced = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  const start = unfenced.search(/[{[]/);
+  return start > 0 ? unfenced.slice(start) : unfenced;
+};
+
+// A response cut off at maxOutputTokens ends inside a string or with brackets left open
+const isTruncated = (json: string): boolean => {
+  let depth = 0;
+  let inString = false;
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') inString = true;
+    else if (char === '{' || char === '[') depth++;
+    else if (char === '}' || char === ']') depth--;
+  }
+  return inString || depth > 0;
+};
+
+/**
+ * Lists every place where the value does not match the schema, as paths like
+ * "$.canvas.pains[0].text: expected string". Empty when the value is valid.
+ */
+export const validateJson = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected object`];
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || [])
+        .filter(key => record[key] === undefined || record[key] === null)
+        .map(key => `${path}.${key}: missing`);
+      const invalid = Object.entries(schema.properties || {}).flatMap(([key, child]) =>
+        record[key] === undefined || record[key] === null ? [] : validateJson(record[key], child, `${path}.${key}`)
+      );
+      return [...missing, ...invalid];
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected array`];
+      return schema.items ? value.flatMap((item, i) => validateJson(item, schema.items!, `${path}[${i}]`)) : [];
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string`];
+      return schema.enum && !schema.enum.includes(value) ? [`${path}: expected one of ${schema.enum.join(', ')}`] : [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path}: expected integer`];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path}: expected number`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean`];
+  }
+};
+
+/**
+ * Parses a structured response and checks it against the schema. Failures carry a
+ * description of the problem that can be shown to the model in a repair prompt.
+ */
+export const parseStructuredOutput = <T>(text: string, schema: JsonSchema): StructuredResult<T> => {
+  const json = extractJson(text || '');
+  if (!json) return { ok: false, problem: 'The response was empty.', truncated: false };
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (err: any) {
+    return isTruncated(json)
+      ? { ok: false, problem: 'The response was cut off before the JSON was complete.', truncated: true }
+      : { ok: false, problem: `The response was not valid JSON (${err.message}).`, truncated: false };
+  }
+
+  const errors = validateJson(value, schema);
+  if (errors.length === 0) return { ok: true, value: value as T };
+  const listed = errors.slice(0, 10).join('; ');
+  const more = errors.length > 10 ? ` and ${errors.length - 10} more` : '';
+  return { ok: false, problem: `The JSON did not match the schema: ${listed}${more}.`, truncated: false };
+};
+
+const getRepairPrompt = (prompt: string, text: string, result: { problem: string; truncated: boolean }) => `${prompt}
+
+    REPAIR: Your previous answer could not be used. ${result.problem}
+    ${result.truncated ? 'Write shorter text in every field so the complete JSON fits in the response.' : ''}
+    Beginning of the previous answer, for reference:
+    ${text.slice(0, REPAIR_EXCERPT_CHARS)}
+
+    Answer again with one complete, valid JSON value that follows the schema exactly.`;
+
+/**
+ * Requests structured output and validates it against the request's schema. Empty,
+ * malformed, truncated or off-schema responses are retried with a repair prompt that
+ * explains what was wrong. Provider errors (network, quota) are not retried here.
+ */
+export const generateValidatedJson = async <T>(
+  provider: LlmProvider,
+  request: StructuredRequest,
+  attempts: number = STRUCTURED_ATTEMPTS
+): Promise<T> => {
+  let prompt = request.prompt;
+  let problem = '';
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const text = await provider.generateJson({ ...request, prompt });
+    const result = parseStructuredOutput<T>(text, request.schema);
+    if (result.ok === true) return result.value;
+
+    problem = result.problem;
+    console.warn(`Unusable ${request.name} response (attempt ${attempt} of ${attempts}): ${problem}`);
+    prompt = getRepairPrompt(request.prompt, text || '', result);
+  }
+  throw new Error(`The model did not return a usable ${request.name} after ${attempts} attempts. ${problem}`);
+};
@@ -0,0 +1,59 @@
+/**
+ * Vendor-neutral contract for the language models the app talks to. Prompt building
+ * and result post-processing stay in geminiService; providers only move text and audio.
+ */
+
+// Which class of model a call needs. Each provider maps tiers to its own model names.
+export type ModelTier = 'fast' | 'reasoning' | 'live';
+
+// The subset of JSON Schema the app uses for structured output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface StructuredRequest {
+  name: string; // Identifies the task, e.g. 'report'. Lets the mock provider pick a canned response.
+  prompt: string;
+  schema: JsonSchema;
+  tier: Exclude<ModelTier, 'live'>;
+  thinkingBudget?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ChatSession {
+  send(message: string): Promise<string>;
+  sendStream(message: string, onChunk: (text: string) => void): Promise<void>;
+}
+
+export interface LiveCallbacks {
+  onAudio: (base64Pcm: string) => void; // 24kHz 16-bit mono PCM from the model
+  onTranscript: (text: string, isUser: boolean) => void;
+  onInterrupted: () => void; // The participant started talking; the model stopped generating its turn
+  onTurnComplete: () => void; // The model finished generating its turn (playback may still be running)
+  onClose: () => void;
+  onError: (error: unknown) => void;
+}
+
+export interface LiveOptions {
+  voice?: string; // Provider-specific voice name; the provider's default when omitted
+  languageCode?: string; // BCP-47 code, e.g. 'de-DE', for providers whose live models take one; others ignore it
+}
+
+export interface LiveSession {
+  sendAudio(base64Pcm: string): void; // 16kHz 16-bit mono PCM from the microphone
+  endAudioStream(): void; // The microphone went quiet; the provider should treat the turn as ended
+  sendText(text: string, turnComplete: boolean): void;
+  close(): void;
+}
+
+export interface LlmProvider {
+  readonly id: string;
+  readonly isConfigured: boolean; // False when e.g. the API key is missing
+  createChat(systemInstruction: string, name?: string): ChatSession; // name works like StructuredRequest.name
+  generateJson(request: StructuredRequest): Promise<string>;
+  connectLive(systemInstruction: string, callbacks: LiveCallbacks, options?: LiveOptions): Promise<LiveSession>;
+}
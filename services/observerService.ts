@@ -0,0 +1,85 @@
+import { TranscriptTurn, Whisper } from "../types";
+import { generateId } from "./campaignService";
+
+export type SessionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'error' | 'finished';
+
+export interface ObservedSession {
+  challenge: string;
+  status: SessionStatus;
+  transcript: TranscriptTurn[];
+  whispers: Whisper[];
+}
+
+type ObserverMessage =
+  | { type: 'state'; session: ObservedSession }
+  | { type: 'request-state' }
+  | { type: 'whisper'; whisper: Whisper };
+
+// There is no server, so the observer has to be another window of this browser,
+// e.g. on a second screen while the participant uses the first
+const channelName = (sessionId: string) => `empathy-agent-observer:${sessionId}`;
+
+export const getObserverUrl = (sessionId: string) => {
+  const url = new URL(window.location.href);
+  url.search = `?observe=${encodeURIComponent(sessionId)}`;
+  return url.toString();
+};
+
+/**
+ * Interview side: publishes the session to observers and receives their whispers.
+ */
+export class ObserverHost {
+  private channel: BroadcastChannel;
+  private session: ObservedSession;
+
+  constructor(sessionId: string, challenge: string, onWhisper: (whisper: Whisper) => void) {
+    this.session = { challenge, status: 'idle', transcript: [], whispers: [] };
+    this.channel = new BroadcastChannel(channelName(sessionId));
+    this.channel.onmessage = (event: MessageEvent<ObserverMessage>) => {
+      const message = event.data;
+      if (message.type === 'request-state') this.broadcast();
+      if (message.type === 'whisper') onWhisper(message.whisper);
+    };
+  }
+
+  update(patch: Partial<ObservedSession>) {
+    this.session = { ...this.session, ...patch };
+    this.broadcast();
+  }
+
+  private broadcast() {
+    const message: ObserverMessage = { type: 'state', session: this.session };
+    this.channel.postMessage(message);
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
+
+/**
+ * Observer side: follows the session and sends whispers to the interviewer.
+ */
+export class ObserverClient {
+  private channel: BroadcastChannel;
+
+  constructor(sessionId: string, onState: (session: ObservedSession) => void) {
+    this.channel = new BroadcastChannel(channelName(sessionId));
+    this.channel.onmessage = (event: MessageEvent<ObserverMessage>) => {
+      if (event.data.type === 'state') onState(event.data.session);
+    };
+    const message: ObserverMessage = { type: 'request-state' };
+    this.channel.postMessage(message);
+  }
+
+  whisper(text: string): Whisper {
+    const whisper: Whisper = { id: generateId(6), text, sentAt: Date.now() };
+    const message: ObserverMessage = { type: 'whisper', whisper };
+    this.channel.postMessage(message);
+    return whisper;
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
@@ -0,0 +1,91 @@
+import { InterviewRecording } from "../types";
+import { encodeWav, resampleInt16 } from "../utils/audioUtils";
+
+// 16kHz keeps a 40-minute stereo recording around 150MB while preserving tone of voice
+export const RECORDING_SAMPLE_RATE = 16000;
+
+/**
+ * One side of the conversation. Audio is placed by wall-clock time, so pauses,
+ * mutes and reconnects become silence and both tracks stay aligned.
+ */
+class Track {
+  private chunks: Int16Array[] = [];
+  length = 0; // In samples
+
+  write(samples: Int16Array, position: number) {
+    if (position > this.length) {
+      this.chunks.push(new Int16Array(position - this.length));
+      this.length = position;
+    }
+    // Overlapping audio (e.g. clock jitter) is appended rather than mixed in
+    this.chunks.push(samples);
+    this.length += samples.length;
+  }
+
+  // Drops everything from position on, e.g. scheduled audio that was never played
+  truncate(position: number) {
+    if (position >= this.length) return;
+    const kept: Int16Array[] = [];
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      if (offset >= position) break;
+      kept.push(offset + chunk.length > position ? chunk.subarray(0, position - offset) : chunk);
+      offset += chunk.length;
+    }
+    this.chunks = kept;
+    this.length = position;
+  }
+
+  toArray(length: number): Int16Array {
+    const output = new Int16Array(length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      output.set(chunk.subarray(0, Math.max(0, length - offset)), offset);
+      offset += chunk.length;
+      if (offset >= length) break;
+    }
+    return output;
+  }
+}
+
+/**
+ * Captures both sides of a voice interview and encodes them as a stereo WAV,
+ * participant on the left channel and interviewer on the right.
+ */
+export class InterviewRecorder {
+  readonly startedAt: number;
+  private participant = new Track();
+  private interviewer = new Track();
+
+  constructor(startedAt: number = Date.now()) {
+    this.startedAt = startedAt;
+  }
+
+  private positionOf(time: number) {
+    return Math.max(0, Math.round(((time - this.startedAt) / 1000) * RECORDING_SAMPLE_RATE));
+  }
+
+  addParticipantAudio(samples: Int16Array, sampleRate: number, startedAt: number) {
+    this.participant.write(resampleInt16(samples, sampleRate, RECORDING_SAMPLE_RATE), this.positionOf(startedAt));
+  }
+
+  // startedAt is when playback of this chunk begins, which can be ahead of now
+  addInterviewerAudio(samples: Int16Array, sampleRate: number, startedAt: number) {
+    this.interviewer.write(resampleInt16(samples, sampleRate, RECORDING_SAMPLE_RATE), this.positionOf(startedAt));
+  }
+
+  // Interviewer audio is written ahead of playback; a barge-in cuts off what was not heard
+  cutInterviewerAudio(at: number) {
+    this.interviewer.truncate(this.positionOf(at));
+  }
+
+  finish(): InterviewRecording | null {
+    const length = Math.max(this.participant.length, this.interviewer.length);
+    if (length === 0) return null;
+    return {
+      blob: encodeWav([this.participant.toArray(length), this.interviewer.toArray(length)], RECORDING_SAMPLE_RATE),
+      startedAt: this.startedAt,
+      durationMs: (length / RECORDING_SAMPLE_RATE) * 1000,
+    };
+  }
+}
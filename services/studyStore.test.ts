@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewMode, InterviewStyle, ParticipantStatus } from '../types';
+import { createEmptyCanvas } from '../utils/canvasUtils';
+import { InMemoryStudyStore, InterviewRecord, purgeExpiredInterviews, StudyRecord } from './studyStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+const report = {
+  intervieweeName: 'Alex Rivera',
+  biography: 'Runs operations at a clinic.',
+  machineInsights: 'Planning never happens.',
+  canvas: createEmptyCanvas(),
+  transcript: [],
+};
+
+const makeStudy = (id: string, retentionDays: number | null, updatedAt = NOW): StudyRecord => ({
+  id,
+  config: {
+    challenge: 'Scheduling at clinics',
+    context: '',
+    style: InterviewStyle.INDIRECT,
+    mode: InterviewMode.TEXT,
+    consent: { purpose: 'Understand scheduling', contact: 'research@example.com', retentionDays },
+  },
+  participants: [
+    { id: `${id}-p1`, email: 'old@example.com', inviteToken: `${id}-t1`, status: ParticipantStatus.COMPLETED, invitedAt: NOW, updatedAt: NOW, report },
+    { id: `${id}-p2`, email: 'new@example.com', inviteToken: `${id}-t2`, status: ParticipantStatus.COMPLETED, invitedAt: NOW, updatedAt: NOW, report },
+  ],
+  synthesis: { challenge: 'Scheduling at clinics', participantNames: ['Alex Rivera'], overview: 'Everyone firefights.', themes: [], outliers: [], generatedAt: NOW },
+  createdAt: NOW,
+  updatedAt,
+});
+
+const makeInterview = (id: string, studyId: string, participantId: string | null, createdAt = NOW): InterviewRecord => ({
+  id, studyId, participantId, transcript: [], report, createdAt, updatedAt: createdAt,
+});
+
+describe('InMemoryStudyStore', () => {
+  it('saves, lists and deletes studies, most recently updated first', async () => {
+    const store = new InMemoryStudyStore();
+    await store.saveStudy(makeStudy('a', 30, NOW));
+    await store.saveStudy(makeStudy('b', 30, NOW + 1000));
+    expect((await store.listStudies()).map(study => study.id)).toEqual(['b', 'a']);
+    expect((await store.getStudy('a'))?.config.challenge).toBe('Scheduling at clinics');
+
+    await store.saveStudy({ ...makeStudy('a', 30), updatedAt: NOW + 2000 });
+    expect((await store.listStudies()).map(study => study.id)).toEqual(['a', 'b']);
+
+    await store.deleteStudy('b');
+    expect(await store.getStudy('b')).toBeUndefined();
+    expect(await store.listStudies()).toHaveLength(1);
+  });
+
+  it('returns copies, so callers cannot change stored records', async () => {
+    const store = new InMemoryStudyStore();
+    const study = makeStudy('a', 30);
+    await store.saveStudy(study);
+    study.participants = [];
+    const loaded = await store.getStudy('a');
+    loaded!.config.challenge = 'Changed';
+    expect((await store.getStudy('a'))?.participants).toHaveLength(2);
+    expect((await store.getStudy('a'))?.config.challenge).toBe('Scheduling at clinics');
+  });
+
+  it('keeps interviews per study and removes them with their study', async () => {
+    const store = new InMemoryStudyStore();
+    await store.saveStudy(makeStudy('a', 30));
+    await store.saveStudy(makeStudy('b', 30));
+    await store.saveInterview(makeInterview('i1', 'a', 'a-p1', NOW));
+    await store.saveInterview(makeInterview('i2', 'a', 'a-p2', NOW + 1000));
+    await store.saveInterview(makeInterview('i3', 'b', null));
+
+    expect((await store.listInterviews('a')).map(interview => interview.id)).toEqual(['i2', 'i1']);
+    await store.deleteInterview('i2');
+    expect(await store.getInterview('i2')).toBeUndefined();
+
+    await store.deleteStudy('a');
+    expect(await store.getInterview('i1')).toBeUndefined();
+    expect(await store.listInterviews('b')).toHaveLength(1);
+  });
+});
+
+describe('purgeExpiredInterviews', () => {
+  it('deletes interviews past the retention period with their roster reports and the synthesis', async () => {
+    const store = new InMemoryStudyStore();
+    await store.saveStudy(makeStudy('a', 30));
+    await store.saveInterview(makeInterview('old', 'a', 'a-p1', NOW - 31 * DAY_MS));
+    await store.saveInterview(makeInterview('new', 'a', 'a-p2', NOW - 29 * DAY_MS));
+
+    expect(await purgeExpiredInterviews(store, NOW)).toBe(1);
+    expect((await store.listInterviews('a')).map(interview => interview.id)).toEqual(['new']);
+    const study = await store.getStudy('a');
+    expect(study?.participants.map(p => !!p.report)).toEqual([false, true]);
+    expect(study?.synthesis).toBeUndefined();
+    expect(study?.updatedAt).toBe(NOW);
+  });
+
+  it('leaves studies without a retention period and studies with nothing expired untouched', async () => {
+    const store = new InMemoryStudyStore();
+    await store.saveStudy(makeStudy('forever', null));
+    await store.saveStudy(makeStudy('fresh', 30));
+    await store.saveInterview(makeInterview('ancient', 'forever', 'forever-p1', NOW - 3650 * DAY_MS));
+    await store.saveInterview(makeInterview('recent', 'fresh', 'fresh-p1', NOW - DAY_MS));
+
+    expect(await purgeExpiredInterviews(store, NOW)).toBe(0);
+    expect(await store.getInterview('ancient')).toBeDefined();
+    expect((await store.getStudy('fresh'))?.synthesis).toBeDefined();
+  });
+});
@@ -0,0 +1,236 @@
+import { Campaign, ConsentRecord, InterviewMode, InterviewRecording, InterviewReport, InterviewStyle, Persona, ReportVersion, TranscriptTurn, Whisper } from "../types";
+import { normalizeReport } from "../utils/canvasUtils";
+import { upgradeTranscript } from "../utils/transcriptUtils";
+import { getConsentSettings } from "../utils/consentUtils";
+
+/**
+ * A persisted study. Every config submitted from the setup screen becomes a study;
+ * demo interviews are simply studies without invited participants.
+ */
+export interface StudyRecord extends Campaign {
+  updatedAt: number;
+}
+
+export interface InterviewRecord {
+  id: string;
+  studyId: string;
+  participantId: string | null; // null for demo interviews
+  transcript: TranscriptTurn[]; // Includes system messages, as shown during the session
+  report: InterviewReport | null;
+  reportHistory?: ReportVersion[]; // Oldest first; the last entry matches `report`
+  simulation?: { persona: Persona; style: InterviewStyle }; // Set for rehearsals with a synthetic participant
+  recording?: InterviewRecording; // Only when the participant agreed to audio recording
+  consent?: ConsentRecord;
+  whispers?: Whisper[]; // Observer instructions sent during the session
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Storage contract for the study library. The app uses IndexedDB in the browser;
+ * the in-memory implementation backs tests and environments without IndexedDB.
+ */
+export interface StudyStore {
+  listStudies(): Promise<StudyRecord[]>;
+  getStudy(id: string): Promise<StudyRecord | undefined>;
+  saveStudy(study: StudyRecord): Promise<void>;
+  deleteStudy(id: string): Promise<void>; // Also removes the study's interviews
+  listInterviews(studyId: string): Promise<InterviewRecord[]>;
+  getInterview(id: string): Promise<InterviewRecord | undefined>;
+  saveInterview(interview: InterviewRecord): Promise<void>;
+  deleteInterview(id: string): Promise<void>;
+}
+
+// Records written by older versions of the app are upgraded on read
+const upgradeStudy = (study: StudyRecord): StudyRecord => ({
+  ...study,
+  participants: study.participants.map(p => p.report ? { ...p, report: normalizeReport(p.report, study.config.mode) } : p),
+});
+
+// Interview records do not carry the study mode; legacy turns are assumed to be text
+const upgradeInterview = (interview: InterviewRecord & { logs?: unknown }): InterviewRecord => {
+  const { logs, ...current } = interview;
+  return {
+    ...current,
+    transcript: upgradeTranscript(logs ?? current.transcript, InterviewMode.TEXT),
+    report: current.report && normalizeReport(current.report),
+  };
+};
+
+const byMostRecent = <T extends { updatedAt: number }>(a: T, b: T) => b.updatedAt - a.updatedAt;
+
+// structuredClone keeps callers from mutating stored records, mirroring IndexedDB semantics
+export class InMemoryStudyStore implements StudyStore {
+  private studies = new Map<string, StudyRecord>();
+  private interviews = new Map<string, InterviewRecord>();
+
+  async listStudies() {
+    return Array.from(this.studies.values(), s => structuredClone(s)).sort(byMostRecent);
+  }
+
+  async getStudy(id: string) {
+    const study = this.studies.get(id);
+    return study && structuredClone(study);
+  }
+
+  async saveStudy(study: StudyRecord) {
+    this.studies.set(study.id, structuredClone(study));
+  }
+
+  async deleteStudy(id: string) {
+    this.studies.delete(id);
+    for (const [interviewId, interview] of this.interviews) {
+      if (interview.studyId === id) this.interviews.delete(interviewId);
+    }
+  }
+
+  async listInterviews(studyId: string) {
+    return Array.from(this.interviews.values())
+      .filter(i => i.studyId === studyId)
+      .map(i => structuredClone(i))
+      .sort(byMostRecent);
+  }
+
+  async getInterview(id: string) {
+    const interview = this.interviews.get(id);
+    return interview && structuredClone(interview);
+  }
+
+  async saveInterview(interview: InterviewRecord) {
+    this.interviews.set(interview.id, structuredClone(interview));
+  }
+
+  async deleteInterview(id: string) {
+    this.interviews.delete(id);
+  }
+}
+
+const DB_NAME = 'empathy-agent';
+const DB_VERSION = 1;
+const STUDIES = 'studies';
+const INTERVIEWS = 'interviews';
+
+// Wraps an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export class IndexedDbStudyStore implements StudyStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STUDIES)) {
+            db.createObjectStore(STUDIES, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(INTERVIEWS)) {
+            const interviews = db.createObjectStore(INTERVIEWS, { keyPath: 'id' });
+            interviews.createIndex('studyId', 'studyId');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(name: string, mode: IDBTransactionMode = 'readonly') {
+    const db = await this.open();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  async listStudies() {
+    const studies = await promisify<StudyRecord[]>((await this.store(STUDIES)).getAll());
+    return studies.map(upgradeStudy).sort(byMostRecent);
+  }
+
+  async getStudy(id: string) {
+    const study = await promisify<StudyRecord | undefined>((await this.store(STUDIES)).get(id));
+    return study && upgradeStudy(study);
+  }
+
+  async saveStudy(study: StudyRecord) {
+    const store = await this.store(STUDIES, 'readwrite');
+    await promisify(store.put(study));
+  }
+
+  async deleteStudy(id: string) {
+    const db = await this.open();
+    const tx = db.transaction([STUDIES, INTERVIEWS], 'readwrite');
+    tx.objectStore(STUDIES).delete(id);
+    const interviews = tx.objectStore(INTERVIEWS);
+    const keys = await promisify(interviews.index('studyId').getAllKeys(id));
+    keys.forEach(key => interviews.delete(key));
+    await transactionDone(tx);
+  }
+
+  async listInterviews(studyId: string) {
+    const store = await this.store(INTERVIEWS);
+    const interviews = await promisify<InterviewRecord[]>(store.index('studyId').getAll(studyId));
+    return interviews.map(upgradeInterview).sort(byMostRecent);
+  }
+
+  async getInterview(id: string) {
+    const interview = await promisify<InterviewRecord | undefined>((await this.store(INTERVIEWS)).get(id));
+    return interview && upgradeInterview(interview);
+  }
+
+  async saveInterview(interview: InterviewRecord) {
+    const store = await this.store(INTERVIEWS, 'readwrite');
+    await promisify(store.put(interview));
+  }
+
+  async deleteInterview(id: string) {
+    const store = await this.store(INTERVIEWS, 'readwrite');
+    await promisify(store.delete(id));
+  }
+}
+
+export const createStudyStore = (): StudyStore =>
+  typeof indexedDB !== 'undefined' ? new IndexedDbStudyStore() : new InMemoryStudyStore();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Enforces each study's retention period: interviews older than it are deleted, along
+ * with the copies of their reports on the roster and any synthesis quoting them.
+ * Returns the number of interviews removed.
+ */
+export const purgeExpiredInterviews = async (store: StudyStore, now: number = Date.now()): Promise<number> => {
+  let purged = 0;
+  for (const study of await store.listStudies()) {
+    const { retentionDays } = getConsentSettings(study.config);
+    if (retentionDays === null) continue;
+
+    const cutoff = now - retentionDays * DAY_MS;
+    const expired = (await store.listInterviews(study.id)).filter(i => i.createdAt < cutoff);
+    if (expired.length === 0) continue;
+
+    for (const interview of expired) {
+      await store.deleteInterview(interview.id);
+    }
+    const expiredParticipants = new Set(expired.map(i => i.participantId));
+    const { synthesis, ...rest } = study;
+    await store.saveStudy({
+      ...rest,
+      participants: study.participants.map(p => expiredParticipants.has(p.id) ? { ...p, report: undefined } : p),
+      updatedAt: now,
+    });
+    purged += expired.length;
+  }
+  return purged;
+};
@@ -3,6 +3,11 @@ export enum AppScreen {
   EMAIL_SIMULATION = 'EMAIL_SIMULATION',
   INTERVIEW = 'INTERVIEW',
   REPORT = 'REPORT',
+  LIBRARY = 'LIBRARY',
+  SYNTHESIS = 'SYNTHESIS',
+  REHEARSAL = 'REHEARSAL',
+  OBSERVER = 'OBSERVER',
+  WITHDRAWN = 'WITHDRAWN',
 }
 
 export enum InterviewStyle {
@@ -15,28 +20,250 @@ export enum InterviewMode {
   TEXT = 'Text',
 }
 
+// What the setup screen launches: real participants, a single live demo, or simulated personas
+export type LaunchMode = 'campaign' | 'demo' | 'rehearsal';
+
+export interface GuideQuestion {
+  id: string;
+  text: string;
+  mustAsk: boolean;
+  probes: string[]; // Optional follow-ups when the answer is shallow
+}
+
+export interface GuideSection {
+  id: string;
+  title: string;
+  timeBudgetMinutes: number;
+  questions: GuideQuestion[];
+}
+
+export interface InterviewGuide {
+  sections: GuideSection[];
+}
+
+export type ContextDocumentKind = 'pdf' | 'docx' | 'html' | 'csv' | 'text';
+
+// A research source imported into the study's context library
+export interface ContextDocument {
+  id: string;
+  name: string; // Original file name
+  kind: ContextDocumentKind;
+  pages: string[]; // Clean text per PDF page; other formats have a single entry
+  addedAt: number;
+}
+
 export interface DeepResearchData {
   challenge: string;
-  context: string; // The deep research text
+  context: string; // Research notes pasted by hand
+  documents?: ContextDocument[]; // Imported sources; relevant passages are selected per prompt
   style: InterviewStyle;
   mode: InterviewMode;
+  guide?: InterviewGuide; // Researcher-authored discussion plan
+  recordAudio?: boolean; // Offer to record voice interviews; the participant still has to agree
+  durationMinutes?: number; // Target session length; the interview wraps up and stops automatically
+  language?: string; // BCP-47 code the interview is held in; participants can override it
+  reportLanguage?: string; // BCP-47 code of the research team; reports are written in it
+  voice?: string; // Prebuilt voice for voice interviews
+  consent?: ConsentSettings;
+  redaction?: RedactionSettings;
+}
+
+export interface ConsentSettings {
+  purpose: string; // Plain-language description of the study, shown to participants
+  contact: string; // Who participants can reach about their data
+  retentionDays: number | null; // Transcripts and audio are deleted after this many days; null keeps them
+}
+
+export enum RedactionMode {
+  OFF = 'Off',
+  MASK = 'Mask', // "[Person]", "[Email]"
+  PSEUDONYMIZE = 'Pseudonymize', // Stable stand-ins such as "Person 1", so who-said-what survives
+}
+
+export interface RedactionSettings {
+  mode: RedactionMode;
+  customTerms: string[]; // Project names, clients, places... matched case-insensitively
+}
+
+// Stored with the interview as evidence of what the participant agreed to
+export interface ConsentRecord {
+  acceptedAt: number;
+  recordingAccepted: boolean;
+  notice: string; // The exact text shown on the consent screen
+}
+
+export interface EvidenceQuote {
+  quote: string; // Verbatim span from the transcript
+  turnIndex: number; // Index into InterviewReport.transcript
+}
+
+// Who wrote a piece of report content. Content without an origin was generated by the model.
+export type ContentOrigin = 'ai' | 'researcher';
+
+export interface CanvasItem {
+  text: string;
+  evidence: EvidenceQuote[];
+  verified: boolean; // False when no quote could be found in the transcript
+  origin?: ContentOrigin; // 'researcher' when added or reworded by hand
 }
 
 export interface EmpathyCanvas {
-  thinkAndFeel: string[];
-  see: string[];
-  hear: string[];
-  sayAndDo: string[];
-  pains: string[];
-  gains: string[];
+  thinkAndFeel: CanvasItem[];
+  see: CanvasItem[];
+  hear: CanvasItem[];
+  sayAndDo: CanvasItem[];
+  pains: CanvasItem[];
+  gains: CanvasItem[];
 }
 
+export type CanvasQuadrant = keyof EmpathyCanvas;
+
+// Lightweight canvas maintained while the interview is running
+export type LiveCanvas = Record<CanvasQuadrant, string[]>;
+
 export interface InterviewReport {
   intervieweeName: string;
   biography: string;
-  transcript: string; // Full transcript
+  transcript: TranscriptTurn[]; // Conversation turns only; system messages are dropped
   canvas: EmpathyCanvas;
   machineInsights: string; // The 2-3 paragraphs of insight
+  language?: string; // BCP-47 code the interview was held in; quotes are in this language
+  failedSections?: ReportSection[]; // Sections that could not be generated and show placeholders
+  editedFields?: ReportTextField[]; // Text fields last written by a researcher rather than the model
+  notes?: string; // The researcher's own notes, never sent to the model
+  tags?: string[];
+  quality?: InterviewQuality; // Review of the interviewer; absent on reports made before it existed
+}
+
+// An interviewer question singled out by the quality review
+export interface QuestionFlag {
+  turnIndex: number; // Index into InterviewReport.transcript; always an interviewer turn
+  quote: string; // The question as asked
+  reason: string;
+  rewrite: string; // A neutral way to ask the same thing
+}
+
+// How well the AI interviewer did, used to tune prompts and to spot biased sessions
+export interface InterviewQuality {
+  score: number; // 0-100 overall
+  summary: string;
+  leadingQuestions: QuestionFlag[];
+  doubleBarreledQuestions: QuestionFlag[];
+  followUpProbes: number; // Questions that dug into something the participant had just said
+  questionCount: number; // Interviewer turns that asked something; counted from the transcript
+  interviewerTalkShare: number; // 0-1 share of the words that were the interviewer's; counted from the transcript
+  styleAdherence: { score: number; comment: string }; // 0-100 against the study's InterviewStyle
+  suggestions: string[]; // Changes to the interviewer's instructions that would have helped
+}
+
+// Parts of a report that are generated independently and can be retried on their own
+export type ReportSection = 'profile' | 'canvas' | 'insights' | 'quality';
+
+// Single sections a researcher can regenerate: the profile, the insights or one quadrant
+export type RegenerableSection = Exclude<ReportSection, 'canvas'> | CanvasQuadrant;
+
+export type ReportTextField = 'intervieweeName' | 'biography' | 'machineInsights';
+
+// A snapshot of a report after a change. The transcript never changes, so it is not copied.
+export interface ReportVersion {
+  version: number; // 1 for the generated report, counting up with every change
+  createdAt: number;
+  origin: ContentOrigin; // Whether the change came from the model or a researcher
+  summary: string; // e.g. "Regenerated Pains: focus on cost"
+  report: Omit<InterviewReport, 'transcript'>;
+}
+
+export interface SynthesisQuote {
+  participant: string;
+  quote: string;
+}
+
+export interface ThemeCluster {
+  quadrant: CanvasQuadrant;
+  theme: string;
+  summary: string;
+  participants: string[]; // Names of the interviewees who raised this theme
+  mentionCount: number;
+  representativeQuotes: SynthesisQuote[];
+}
+
+export interface OutlierView {
+  participant: string;
+  quadrant: CanvasQuadrant;
+  view: string;
+}
+
+export interface SynthesisReport {
+  challenge: string;
+  participantNames: string[];
+  overview: string;
+  themes: ThemeCluster[];
+  outliers: OutlierView[];
+  generatedAt: number;
+}
+
+export enum ParticipantStatus {
+  INVITED = 'Invited',
+  JOINED = 'Joined',
+  IN_PROGRESS = 'In Progress',
+  COMPLETED = 'Completed',
+  DROPPED = 'Dropped',
+}
+
+export interface Participant {
+  id: string;
+  email: string;
+  inviteToken: string; // Unique per participant, used in the interview link
+  status: ParticipantStatus;
+  invitedAt: number;
+  updatedAt: number;
+  language?: string; // Overrides the study language for this participant
+  report?: InterviewReport;
+}
+
+export interface Campaign {
+  id: string;
+  config: DeepResearchData;
+  participants: Participant[];
+  createdAt: number;
+  synthesis?: SynthesisReport;
+}
+
+export enum PersonaVerbosity {
+  TERSE = 'Terse',
+  BALANCED = 'Balanced',
+  TALKATIVE = 'Talkative',
+}
+
+export enum PersonaGuardedness {
+  OPEN = 'Open',
+  RESERVED = 'Reserved',
+  GUARDED = 'Guarded',
+}
+
+// A simulated interviewee used to rehearse a study before real participants join
+export interface Persona {
+  id: string;
+  name: string;
+  background: string; // Role, situation, relevant history
+  attitudes: string; // Opinions and feelings about the research topic
+  verbosity: PersonaVerbosity;
+  guardedness: PersonaGuardedness;
+}
+
+// Stereo WAV of a voice interview: participant on the left channel, interviewer on the right
+export interface InterviewRecording {
+  blob: Blob;
+  startedAt: number; // Wall-clock time of the first sample, same clock as TranscriptTurn.startTime
+  durationMs: number;
+}
+
+// Private instruction from a researcher watching the session; never shown to the participant
+export interface Whisper {
+  id: string;
+  text: string;
+  sentAt: number;
+  deliveredAt?: number; // When it reached the interviewer; chat mode applies it with the next answer
 }
 
 export interface AudioContextState {
@@ -45,8 +272,18 @@ export interface AudioContextState {
   volume: number;
 }
 
-export type LogMessage = {
-  role: 'user' | 'model' | 'system';
+export type Speaker = 'user' | 'model' | 'system';
+
+/**
+ * One turn of the conversation. Voice transcription arrives in fragments which are
+ * merged into the current turn until the other side starts speaking.
+ */
+export interface TranscriptTurn {
+  speaker: Speaker;
   text: string;
-  timestamp: number;
-};
\ No newline at end of file
+  startTime: number; // Epoch ms of the first fragment
+  endTime: number; // Epoch ms of the last fragment
+  mode: InterviewMode;
+  partial: boolean; // Voice turn that was still streaming when the session ended
+  interrupted?: boolean; // Interviewer turn the participant talked over; text is only what was heard
+}
\ No newline at end of file
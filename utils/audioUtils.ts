@@ -54,4 +54,143 @@ export const pcmToAudioBuffer = (
   const audioBuffer = audioContext.createBuffer(1, float32Array.length, sampleRate);
   audioBuffer.copyToChannel(float32Array, 0);
   return audioBuffer;
-};
\ No newline at end of file
+};
+/**
+ * Linear resampling of PCM16, e.g. 24kHz model audio down to the 16kHz recording rate
+ */
+export const resampleInt16 = (samples: Int16Array, fromRate: number, toRate: number): Int16Array => {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const output = new Int16Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    const fraction = position - index;
+    output[i] = Math.round(samples[index] * (1 - fraction) + samples[next] * fraction);
+  }
+  return output;
+};
+
+/**
+ * Encodes equally long PCM16 channels as an interleaved WAV file
+ */
+export const encodeWav = (channels: Int16Array[], sampleRate: number): Blob => {
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * 2;
+  const dataSize = frameCount * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM header size
+  view.setUint16(20, 1, true); // Format: PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (const channel of channels) {
+      view.setInt16(offset, channel[frame], true);
+      offset += 2;
+    }
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Downsamples a continuous stream chunk by chunk, e.g. 48kHz microphone audio to the
+ * 16kHz the live API expects. Each output sample averages the input samples it covers,
+ * which filters out what the lower rate cannot represent. The remainder of each chunk
+ * is carried over so chunk boundaries do not click.
+ */
+export class StreamResampler {
+  private ratio: number;
+  private pending = new Float32Array(0);
+  private position = 0; // Where the next output sample starts, relative to pending[0]
+
+  constructor(fromRate: number, toRate: number) {
+    this.ratio = fromRate / toRate;
+  }
+
+  process(input: Float32Array): Float32Array {
+    const samples = new Float32Array(this.pending.length + input.length);
+    samples.set(this.pending);
+    samples.set(input, this.pending.length);
+
+    const count = Math.max(0, Math.floor((samples.length - this.position) / this.ratio));
+    const output = new Float32Array(count);
+    for (let i = 0; i < count; i++) {
+      const start = this.position + i * this.ratio;
+      const from = Math.floor(start);
+      const to = Math.min(samples.length, Math.max(from + 1, Math.floor(start + this.ratio)));
+      let sum = 0;
+      for (let j = from; j < to; j++) sum += samples[j];
+      output[i] = sum / (to - from);
+    }
+
+    const consumed = this.position + count * this.ratio;
+    const kept = Math.floor(consumed);
+    this.pending = samples.slice(kept);
+    this.position = consumed - kept;
+    return output;
+  }
+}
+
+export interface VoiceActivity {
+  level: number; // 0-1 on a logarithmic scale, for meters
+  speaking: boolean;
+}
+
+// Speech must last this long to count, so clicks and bumps do not open the gate
+const VAD_ATTACK_MS = 60;
+// Silence after speech before the gate closes, so pauses between words are kept
+const VAD_HANGOVER_MS = 600;
+// Speech has to be this many times louder than the background noise
+const VAD_NOISE_RATIO = 3;
+const VAD_MIN_THRESHOLD = 0.01;
+
+/**
+ * Energy-based voice activity detection with an adaptive noise floor: the floor follows
+ * the background level while nobody speaks, so fans and street noise do not keep the
+ * gate open.
+ */
+export class VoiceActivityDetector {
+  private noiseFloor = 0.003;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private speaking = false;
+
+  process(frame: Float32Array, sampleRate: number): VoiceActivity {
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+    const rms = Math.sqrt(sum / Math.max(1, frame.length));
+    const durationMs = (frame.length / sampleRate) * 1000;
+
+    if (rms > Math.max(this.noiseFloor * VAD_NOISE_RATIO, VAD_MIN_THRESHOLD)) {
+      this.speechMs += durationMs;
+      this.silenceMs = 0;
+      if (this.speechMs >= VAD_ATTACK_MS) this.speaking = true;
+    } else {
+      this.silenceMs += durationMs;
+      this.speechMs = 0;
+      if (this.silenceMs >= VAD_HANGOVER_MS) this.speaking = false;
+      if (!this.speaking) this.noiseFloor = this.noiseFloor * 0.95 + rms * 0.05;
+    }
+
+    // -60 dBFS and below reads as 0, full scale as 1
+    const level = Math.max(0, Math.min(1, (20 * Math.log10(rms || 1e-6) + 60) / 60));
+    return { level, speaking: this.speaking };
+  }
+}
@@ -0,0 +1,109 @@
+import { CanvasItem, CanvasQuadrant, EmpathyCanvas, EvidenceQuote, InterviewMode, InterviewReport, LiveCanvas, TranscriptTurn } from '../types';
+import { upgradeTranscript } from './transcriptUtils';
+
+/**
+ * Display order and labels for the six Empathy Canvas quadrants.
+ */
+export const CANVAS_QUADRANTS: { key: CanvasQuadrant; label: string }[] = [
+  { key: 'thinkAndFeel', label: 'Think & Feel' },
+  { key: 'see', label: 'See' },
+  { key: 'hear', label: 'Hear' },
+  { key: 'sayAndDo', label: 'Say & Do' },
+  { key: 'pains', label: 'Pains' },
+  { key: 'gains', label: 'Gains' },
+];
+
+export const QUADRANT_KEYS: CanvasQuadrant[] = CANVAS_QUADRANTS.map(q => q.key);
+
+// Quadrants with fewer points than this are flagged as gaps during the interview
+export const THIN_QUADRANT_THRESHOLD = 2;
+
+export const createEmptyLiveCanvas = (): LiveCanvas =>
+  QUADRANT_KEYS.reduce((acc, key) => ({ ...acc, [key]: [] }), {} as LiveCanvas);
+
+export const createEmptyCanvas = (): EmpathyCanvas =>
+  QUADRANT_KEYS.reduce((acc, key) => ({ ...acc, [key]: [] }), {} as EmpathyCanvas);
+
+export const getThinQuadrants = (canvas: LiveCanvas): CanvasQuadrant[] =>
+  QUADRANT_KEYS.filter(key => canvas[key].length < THIN_QUADRANT_THRESHOLD);
+
+export const getQuadrantLabel = (key: CanvasQuadrant): string =>
+  CANVAS_QUADRANTS.find(q => q.key === key)?.label ?? key;
+
+// Lowercase, unify curly quotes and collapse punctuation/whitespace so light
+// reformatting by the model does not break quote matching.
+export const normalizeForMatch = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\p{L}\p{N}']+/gu, ' ')
+    .trim();
+
+const turnContains = (turn: TranscriptTurn | undefined, normalizedQuote: string) =>
+  !!turn && turn.speaker === 'user' && normalizeForMatch(turn.text).includes(normalizedQuote);
+
+/**
+ * Checks each evidence quote against the participant's turns. Quotes cited with the
+ * wrong index are re-pointed to the turn that actually contains them; quotes that
+ * appear nowhere are dropped. Items left without evidence are marked unverified.
+ */
+export const verifyCanvasEvidence = (canvas: EmpathyCanvas, turns: TranscriptTurn[]): EmpathyCanvas => {
+  const verifyItem = (item: CanvasItem): CanvasItem => {
+    const evidence = (item.evidence || []).flatMap((ev): EvidenceQuote[] => {
+      const normalizedQuote = normalizeForMatch(ev.quote || '');
+      if (!normalizedQuote) return [];
+      if (turnContains(turns[ev.turnIndex], normalizedQuote)) return [ev];
+      const actualIndex = turns.findIndex(turn => turnContains(turn, normalizedQuote));
+      return actualIndex === -1 ? [] : [{ ...ev, turnIndex: actualIndex }];
+    });
+    return { text: item.text, evidence, verified: evidence.length > 0 };
+  };
+
+  return QUADRANT_KEYS.reduce(
+    (acc, key) => ({ ...acc, [key]: (canvas[key] || []).map(verifyItem) }),
+    {} as EmpathyCanvas
+  );
+};
+
+/**
+ * Combines canvases analysed from separate windows of one transcript. Points with the
+ * same wording are merged and keep the evidence of both; order of first mention is kept.
+ */
+export const mergeCanvases = (canvases: EmpathyCanvas[]): EmpathyCanvas =>
+  QUADRANT_KEYS.reduce((acc, key) => {
+    const merged = new Map<string, CanvasItem>();
+    canvases.flatMap(canvas => canvas[key]).forEach(item => {
+      const normalized = normalizeForMatch(item.text);
+      const existing = merged.get(normalized);
+      if (!existing) {
+        merged.set(normalized, item);
+        return;
+      }
+      const evidence = [...existing.evidence, ...item.evidence.filter(ev =>
+        !existing.evidence.some(other => other.turnIndex === ev.turnIndex && other.quote === ev.quote)
+      )];
+      merged.set(normalized, { ...existing, evidence, verified: evidence.length > 0 });
+    });
+    return { ...acc, [key]: Array.from(merged.values()) };
+  }, {} as EmpathyCanvas);
+
+/**
+ * Reports saved before evidence tracking stored canvas items as plain strings, and
+ * older ones stored the transcript as a flat string. Both are upgraded on load;
+ * legacy canvas items become unverified items.
+ */
+export const normalizeReport = (report: InterviewReport & { turns?: unknown }, mode: InterviewMode = InterviewMode.TEXT): InterviewReport => {
+  // An intermediate format kept the flat string plus a separate `turns` array
+  const { turns, ...current } = report;
+  return {
+    ...current,
+    transcript: upgradeTranscript(turns ?? current.transcript, mode),
+    canvas: QUADRANT_KEYS.reduce((acc, key) => ({
+      ...acc,
+      [key]: ((current.canvas?.[key] || []) as (CanvasItem | string)[]).map(item =>
+        typeof item === 'string' ? { text: item, evidence: [], verified: false } : item
+      ),
+    }), {} as EmpathyCanvas),
+  };
+};
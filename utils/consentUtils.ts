@@ -0,0 +1,56 @@
+import { ConsentSettings, DeepResearchData, InterviewMode } from '../types';
+import { getDurationMinutes } from './pacingUtils';
+
+export const DEFAULT_RETENTION_DAYS = 90;
+
+export interface ConsentSection {
+  title: string;
+  body: string;
+}
+
+// Studies created before consent settings existed use the challenge as the purpose and are never purged
+export const getConsentSettings = (config: DeepResearchData): ConsentSettings => ({
+  purpose: config.consent?.purpose || config.challenge,
+  contact: config.consent?.contact || '',
+  retentionDays: config.consent?.retentionDays ?? null,
+});
+
+/**
+ * The disclosure shown before an interview. The same sections are flattened into the
+ * stored consent record, so what was agreed to can be reproduced exactly.
+ */
+export const buildConsentNotice = (config: DeepResearchData): ConsentSection[] => {
+  const settings = getConsentSettings(config);
+  const isVoice = config.mode === InterviewMode.VOICE;
+  const sections: ConsentSection[] = [
+    { title: 'What this study is about', body: settings.purpose },
+    { title: 'How long it takes', body: `Up to ${getDurationMinutes(config)} minutes. The interview ends automatically when the time is up.` },
+    {
+      title: 'You will be talking to an AI',
+      body: `The interviewer is an AI system, not a person. It ${isVoice ? 'listens to what you say' : 'reads what you type'} and asks follow-up questions. You can switch between talking and typing at any time. A research team reviews the conversation and an AI-generated summary of it afterwards.`,
+    },
+    {
+      title: 'What is recorded',
+      body: config.recordAudio && isVoice
+        ? 'A written transcript of the conversation is kept. If you agree below, the audio of both sides of the conversation is recorded as well.'
+        : 'A written transcript of the conversation is kept. No audio is recorded.',
+    },
+    {
+      title: 'Your right to withdraw',
+      body: 'Taking part is voluntary. You can stop at any time using "Withdraw & delete", and everything recorded in this session will be deleted immediately.',
+    },
+    {
+      title: 'How long your data is kept',
+      body: settings.retentionDays === null
+        ? 'The research team keeps the transcript until the study is deleted.'
+        : `The transcript${config.recordAudio && isVoice ? ' and audio are' : ' is'} deleted automatically ${settings.retentionDays} days after the interview.`,
+    },
+  ];
+  if (settings.contact) {
+    sections.push({ title: 'Questions about your data', body: `Contact ${settings.contact}.` });
+  }
+  return sections;
+};
+
+export const formatConsentNotice = (sections: ConsentSection[]): string =>
+  sections.map(s => `${s.title}\n${s.body}`).join('\n\n');
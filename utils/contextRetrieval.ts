@@ -0,0 +1,120 @@
+import { ContextDocument, DeepResearchData } from '../types';
+import { contentWordList } from './guideUtils';
+
+// Passages are a few paragraphs long: enough to stand on their own, small enough to rank
+const CHUNK_CHARS = 1200;
+
+export interface ContextChunk {
+  source: string; // "deck.pdf, p. 12"
+  text: string;
+  position: number; // Order across all documents, used to present passages in reading order
+}
+
+/**
+ * All research context for a study: imported documents plus the pasted notes,
+ * which studies created before the context library only have.
+ */
+export const getContextDocuments = (config: DeepResearchData): ContextDocument[] => {
+  const documents = config.documents || [];
+  return config.context.trim()
+    ? [{ id: 'notes', name: 'Research notes', kind: 'text', pages: [config.context], addedAt: 0 }, ...documents]
+    : documents;
+};
+
+// Long paragraphs (e.g. a PDF page without blank lines) are split at sentence ends
+const splitParagraph = (paragraph: string): string[] => {
+  if (paragraph.length <= CHUNK_CHARS) return [paragraph];
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of paragraph.split(/(?<=[.!?。])\s+/)) {
+    if (current && current.length + sentence.length > CHUNK_CHARS) {
+      pieces.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current) pieces.push(current);
+  // A single sentence can still be too long, e.g. a table flattened onto one line
+  return pieces.flatMap(piece => piece.length <= CHUNK_CHARS * 1.5 ? [piece] : piece.match(new RegExp(`[\\s\\S]{1,${CHUNK_CHARS}}`, 'g')) || []);
+};
+
+export const chunkDocuments = (documents: ContextDocument[]): ContextChunk[] => {
+  const chunks: ContextChunk[] = [];
+  documents.forEach(doc => {
+    doc.pages.forEach((page, pageIndex) => {
+      const source = doc.kind === 'pdf' ? `${doc.name}, p. ${pageIndex + 1}` : doc.name;
+      let current = '';
+      const flush = () => {
+        if (current.trim()) chunks.push({ source, text: current.trim(), position: chunks.length });
+        current = '';
+      };
+      page.split(/\n\s*\n/).flatMap(splitParagraph).forEach(paragraph => {
+        if (current && current.length + paragraph.length > CHUNK_CHARS) flush();
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+      });
+      flush();
+    });
+  });
+  return chunks;
+};
+
+/**
+ * Okapi BM25 relevance of each chunk to the query. Chunks sharing no terms score 0.
+ */
+const scoreChunks = (chunks: ContextChunk[], query: string): number[] => {
+  const queryTerms = new Set(contentWordList(query));
+  const chunkTerms = chunks.map(chunk => contentWordList(chunk.text));
+  const averageLength = chunkTerms.reduce((sum, terms) => sum + terms.length, 0) / Math.max(1, chunks.length);
+
+  const documentFrequency = new Map<string, number>();
+  chunkTerms.forEach(terms => new Set(terms).forEach(term => {
+    if (queryTerms.has(term)) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+  }));
+
+  const k1 = 1.2;
+  const b = 0.75;
+  return chunkTerms.map(terms => {
+    const frequency = new Map<string, number>();
+    terms.forEach(term => { if (queryTerms.has(term)) frequency.set(term, (frequency.get(term) || 0) + 1); });
+    let score = 0;
+    frequency.forEach((tf, term) => {
+      const df = documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * terms.length / Math.max(1, averageLength)));
+    });
+    return score;
+  });
+};
+
+const formatChunks = (chunks: ContextChunk[]) =>
+  chunks.map(chunk => `[${chunk.source}]\n${chunk.text}`).join('\n\n');
+
+/**
+ * Picks the passages most relevant to the query that fit in the character budget and
+ * returns them in reading order, each labelled with its source. When everything fits,
+ * everything is returned.
+ */
+export const selectRelevantContext = (config: DeepResearchData, query: string, budgetChars: number): string => {
+  const chunks = chunkDocuments(getContextDocuments(config));
+  if (chunks.reduce((sum, chunk) => sum + chunk.text.length, 0) <= budgetChars) return formatChunks(chunks);
+
+  const scores = scoreChunks(chunks, query);
+  // Ties (including chunks that match nothing) keep reading order, so summaries up front win
+  const ranked = chunks
+    .map((chunk, i) => ({ chunk, score: scores[i] }))
+    .sort((a, b) => b.score - a.score || a.chunk.position - b.chunk.position);
+
+  const selected: ContextChunk[] = [];
+  let used = 0;
+  for (const { chunk } of ranked) {
+    if (used + chunk.text.length > budgetChars) continue;
+    selected.push(chunk);
+    used += chunk.text.length;
+  }
+  return formatChunks(selected.sort((a, b) => a.position - b.position));
+};
+
+export const getContextSize = (doc: ContextDocument) => ({
+  chars: doc.pages.reduce((sum, page) => sum + page.length, 0),
+  passages: chunkDocuments([doc]).length,
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewMode, InterviewReport } from '../types';
+import { createEmptyCanvas } from './canvasUtils';
+import { parseReportDocument, REPORT_DOCUMENT_FORMAT, reportFileName, reportToCsv, reportToHtml, reportToJson, reportToMarkdown } from './exportUtils';
+
+const turn = (speaker: 'user' | 'model', text: string, offsetSeconds: number) => ({
+  speaker, text, startTime: 1_700_000_000_000 + offsetSeconds * 1000, endTime: 1_700_000_000_000 + offsetSeconds * 1000, mode: InterviewMode.TEXT, partial: false,
+});
+
+const makeReport = (): InterviewReport => ({
+  intervieweeName: 'Alex Rivera',
+  biography: 'Runs operations at a clinic.\n\nOwns the calendar.',
+  machineInsights: 'First insight.\n\nSecond insight with <script>alert(1)</script>.',
+  canvas: {
+    ...createEmptyCanvas(),
+    pains: [{ text: 'Double bookings, "constantly"', evidence: [{ quote: 'always one double booking away', turnIndex: 1 }], verified: true }],
+    gains: [{ text: '=HYPERLINK("http://evil")', evidence: [], verified: false }],
+    sayAndDo: [{ text: 'Calls patients back', evidence: [], verified: false, origin: 'researcher' }],
+  },
+  transcript: [
+    turn('model', 'How does Monday start?', 0),
+    turn('user', "I'm always one double booking away from an angry patient.", 65),
+  ],
+  notes: 'Follow up in March.',
+  tags: ['ops', 'clinic'],
+});
+
+// Minimal RFC 4180 reader, enough to check what a spreadsheet would see
+const parseCsv = (csv: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ',') { row.push(cell); cell = ''; }
+    else if (char === '\r' && csv[i + 1] === '\n') { row.push(cell); rows.push(row); row = []; cell = ''; i++; }
+    else cell += char;
+  }
+  return rows;
+};
+
+describe('reportToJson / parseReportDocument', () => {
+  it('round-trips a report', () => {
+    const report = makeReport();
+    expect(parseReportDocument(reportToJson(report, new Date('2024-01-01T00:00:00Z')))).toEqual(report);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseReportDocument('not json')).toThrow('not valid JSON');
+  });
+
+  it('rejects JSON that is not a report export', () => {
+    expect(() => parseReportDocument('{"hello": 1}')).toThrow('not an Empathy Agent report export');
+    expect(() => parseReportDocument('null')).toThrow('not an Empathy Agent report export');
+  });
+
+  it('rejects exports from a newer version', () => {
+    const document = { format: REPORT_DOCUMENT_FORMAT, version: 99, report: makeReport() };
+    expect(() => parseReportDocument(JSON.stringify(document))).toThrow('Unsupported report export version: 99');
+  });
+
+  it.each([
+    ['a missing name', (report: any) => { delete report.intervieweeName; }, '"intervieweeName"'],
+    ['a name that is not text', (report: any) => { report.intervieweeName = { first: 'Alex' }; }, '"intervieweeName"'],
+    ['insights that are not text', (report: any) => { report.machineInsights = 42; }, '"machineInsights"'],
+    ['a missing transcript', (report: any) => { delete report.transcript; }, 'transcript is missing'],
+    ['a malformed turn', (report: any) => { report.transcript[1] = { speaker: 'user' }; }, 'transcript turn 1'],
+    ['a missing canvas', (report: any) => { report.canvas = null; }, 'canvas is missing'],
+    ['a quadrant that is not a list', (report: any) => { report.canvas.pains = 'lots'; }, 'pains quadrant'],
+    ['a malformed canvas item', (report: any) => { report.canvas.gains = [{ evidence: [] }]; }, 'gains quadrant'],
+  ])('rejects a report with %s', (_, damage, message) => {
+    const document = JSON.parse(reportToJson(makeReport()));
+    damage(document.report);
+    expect(() => parseReportDocument(JSON.stringify(document))).toThrow(message);
+  });
+});
+
+describe('reportToCsv', () => {
+  it('writes one row per canvas item that reads back unchanged', () => {
+    const rows = parseCsv(reportToCsv(makeReport()));
+    expect(rows[0]).toEqual(['participant', 'quadrant', 'item', 'verified', 'source', 'quotes']);
+    expect(rows).toHaveLength(4);
+    expect(rows).toContainEqual(['Alex Rivera', 'Pains', 'Double bookings, "constantly"', 'yes', 'ai', 'always one double booking away']);
+    expect(rows).toContainEqual(['Alex Rivera', 'Say & Do', 'Calls patients back', 'no', 'researcher', '']);
+  });
+
+  it('keeps cells that look like formulas as literal text', () => {
+    const rows = parseCsv(reportToCsv(makeReport()));
+    const gain = rows.find(row => row[1] === 'Gains');
+    expect(gain?.[2]).toBe(`'=HYPERLINK("http://evil")`);
+    for (const prefix of ['+', '-', '@']) {
+      const report = { ...makeReport(), intervieweeName: `${prefix}cmd` };
+      expect(parseCsv(reportToCsv(report))[1][0]).toBe(`'${prefix}cmd`);
+    }
+  });
+});
+
+describe('reportToMarkdown', () => {
+  it('contains every section, cited quotes with their offset and the transcript', () => {
+    const markdown = reportToMarkdown(makeReport());
+    expect(markdown).toContain('# Alex Rivera');
+    expect(markdown).toContain('## Subject Profile\n\nRuns operations at a clinic.');
+    expect(markdown).toContain('- Double bookings, "constantly"\n  > "always one double booking away" (1:05)');
+    expect(markdown).toContain('- Calls patients back _(researcher)_');
+    expect(markdown).toContain('Tags: ops, clinic');
+    expect(markdown).toContain("**Participant** (1:05): I'm always one double booking away from an angry patient.");
+    expect(markdown.endsWith('\n')).toBe(true);
+  });
+});
+
+describe('reportToHtml', () => {
+  it('is a self-contained page with the report content escaped', () => {
+    const html = reportToHtml(makeReport());
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).not.toMatch(/<(link|script)\b/);
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('<p>First insight.</p>');
+    expect(html).toContain('Double bookings, &quot;constantly&quot;');
+    expect(html).toContain('<td class="time">1:05</td>');
+  });
+});
+
+describe('reportFileName', () => {
+  it('makes a safe slug and falls back when there is nothing left', () => {
+    expect(reportFileName(makeReport(), 'md')).toBe('alex-rivera-report.md');
+    expect(reportFileName({ ...makeReport(), intervieweeName: '???' }, 'csv')).toBe('interview-report.csv');
+  });
+});
@@ -0,0 +1,252 @@
+import { CanvasItem, InterviewReport } from '../types';
+import { CANVAS_QUADRANTS, normalizeReport } from './canvasUtils';
+import { formatOffset, getSpeakerLabel } from './transcriptUtils';
+
+export const REPORT_DOCUMENT_FORMAT = 'empathy-agent/interview-report';
+export const REPORT_DOCUMENT_VERSION = 1;
+
+export interface ReportDocument {
+  format: typeof REPORT_DOCUMENT_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  report: InterviewReport;
+}
+
+// Researcher-written points have no quote, so they are labelled instead of marked unverified
+const itemNote = (item: CanvasItem): string =>
+  item.origin === 'researcher' ? 'researcher' : item.verified ? '' : 'unverified';
+
+const transcriptOrigin = (report: InterviewReport) => report.transcript[0]?.startTime ?? 0;
+
+// The participant switched between voice and text, so each turn says which it was
+const isHybrid = (report: InterviewReport) => new Set(report.transcript.map(turn => turn.mode)).size > 1;
+
+// Legacy transcripts have no timing, so fall back to the turn number
+const turnLabel = (report: InterviewReport, index: number) => {
+  const origin = transcriptOrigin(report);
+  const turn = report.transcript[index];
+  const label = origin > 0 && turn ? formatOffset(turn.startTime, origin) : `#${index}`;
+  return turn && isHybrid(report) ? `${label}, ${turn.mode.toLowerCase()}` : label;
+};
+
+/**
+ * Markdown for the team wiki: bio, canvas (with cited quotes), insights, researcher
+ * notes and transcript.
+ */
+export const reportToMarkdown = (report: InterviewReport): string => {
+  const lines: string[] = [
+    `# ${report.intervieweeName}`,
+    '',
+    '## Subject Profile',
+    '',
+    report.biography,
+    '',
+    '## Empathy Canvas',
+  ];
+
+  CANVAS_QUADRANTS.forEach(({ key, label }) => {
+    lines.push('', `### ${label}`, '');
+    const items = report.canvas[key];
+    if (items.length === 0) {
+      lines.push('_No specific data points gathered._');
+      return;
+    }
+    items.forEach(item => {
+      lines.push(`- ${item.text}${itemNote(item) && ` _(${itemNote(item)})_`}`);
+      item.evidence.forEach(ev => lines.push(`  > "${ev.quote}" (${turnLabel(report, ev.turnIndex)})`));
+    });
+  });
+
+  lines.push('', '## Machine Intelligence Insights', '', report.machineInsights);
+  if (report.notes || report.tags?.length) {
+    lines.push('', '## Researcher Notes', '');
+    if (report.tags?.length) lines.push(`Tags: ${report.tags.join(', ')}`, '');
+    if (report.notes) lines.push(report.notes);
+  }
+  lines.push('', '## Transcript', '');
+  report.transcript.forEach((turn, i) => {
+    lines.push(`**${getSpeakerLabel(turn.speaker)}** (${turnLabel(report, i)}): ${turn.text}`, '');
+  });
+
+  return lines.join('\n').trimEnd() + '\n';
+};
+
+/**
+ * Versioned JSON document that can be re-imported with parseReportDocument.
+ */
+export const reportToJson = (report: InterviewReport, exportedAt: Date = new Date()): string => {
+  const document: ReportDocument = {
+    format: REPORT_DOCUMENT_FORMAT,
+    version: REPORT_DOCUMENT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    report,
+  };
+  return JSON.stringify(document, null, 2);
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Imported files are untrusted: everything the report view and exports read must have the right type
+const getReportProblem = (report: Record<string, any>): string | null => {
+  for (const field of ['intervieweeName', 'biography', 'machineInsights']) {
+    if (typeof report[field] !== 'string') return `"${field}" is missing or not text`;
+  }
+  if (!Array.isArray(report.transcript)) return 'the transcript is missing';
+  const badTurn = report.transcript.findIndex((turn: unknown) =>
+    !isObject(turn) || !['user', 'model', 'system'].includes(turn.speaker) || typeof turn.text !== 'string');
+  if (badTurn !== -1) return `transcript turn ${badTurn} is malformed`;
+  if (!isObject(report.canvas)) return 'the empathy canvas is missing';
+  for (const { key } of CANVAS_QUADRANTS) {
+    const items = report.canvas[key] ?? [];
+    if (!Array.isArray(items)) return `the ${key} quadrant is not a list`;
+    const isValid = (item: unknown) => typeof item === 'string' ||
+      (isObject(item) && typeof item.text === 'string' && (item.evidence === undefined || Array.isArray(item.evidence)));
+    if (!items.every(isValid)) return `the ${key} quadrant contains a malformed item`;
+  }
+  return null;
+};
+
+/**
+ * Parses a document produced by reportToJson. Throws on anything that is not a
+ * report document, one written by a newer version of the app, or one with malformed fields.
+ */
+export const parseReportDocument = (json: string): InterviewReport => {
+  let document: Partial<ReportDocument>;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (document?.format !== REPORT_DOCUMENT_FORMAT || !document.report) {
+    throw new Error("The file is not an Empathy Agent report export.");
+  }
+  if (typeof document.version !== 'number' || document.version > REPORT_DOCUMENT_VERSION) {
+    throw new Error(`Unsupported report export version: ${document.version}.`);
+  }
+  const problem = isObject(document.report) ? getReportProblem(document.report) : 'the report is not an object';
+  if (problem) {
+    throw new Error(`The report export is damaged: ${problem}.`);
+  }
+  return normalizeReport(document.report);
+};
+
+// Spreadsheets run cells starting with these as formulas, so participant text is quoted as literal
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsv = (value: string | number): string => {
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per canvas item, ready for affinity-mapping tools.
+ */
+export const reportToCsv = (report: InterviewReport): string => {
+  const rows: (string | number)[][] = [['participant', 'quadrant', 'item', 'verified', 'source', 'quotes']];
+  CANVAS_QUADRANTS.forEach(({ key, label }) => {
+    report.canvas[key].forEach(item => {
+      rows.push([
+        report.intervieweeName,
+        label,
+        item.text,
+        item.verified ? 'yes' : 'no',
+        item.origin === 'researcher' ? 'researcher' : 'ai',
+        item.evidence.map(ev => ev.quote).join(' | '),
+      ]);
+    });
+  });
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const paragraphs = (text: string) =>
+  text.split(/\n+/).filter(Boolean).map(p => `<p>${escapeHtml(p)}</p>`).join('\n');
+
+/**
+ * Self-contained, print-ready HTML page (inline styles, no external assets).
+ */
+export const reportToHtml = (report: InterviewReport): string => {
+  const quadrants = CANVAS_QUADRANTS.map(({ key, label }) => {
+    const items = report.canvas[key];
+    const list = items.length === 0
+      ? '<p class="empty">No specific data points gathered.</p>'
+      : `<ul>${items.map(item => `
+          <li${itemNote(item) === 'unverified' ? ' class="unverified"' : ''}>${escapeHtml(item.text)}${itemNote(item) && ` <em>(${itemNote(item)})</em>`}
+            ${item.evidence.map(ev => `<blockquote>&ldquo;${escapeHtml(ev.quote)}&rdquo; <span>${turnLabel(report, ev.turnIndex)}</span></blockquote>`).join('')}
+          </li>`).join('')}</ul>`;
+    return `<section class="quadrant"><h3>${escapeHtml(label)}</h3>${list}</section>`;
+  }).join('\n');
+
+  const transcript = report.transcript.map((turn, i) => `
+    <tr><td class="time">${turnLabel(report, i)}</td><th>${getSpeakerLabel(turn.speaker)}</th><td>${escapeHtml(turn.text)}</td></tr>`
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Interview Report: ${escapeHtml(report.intervieweeName)}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1e293b; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { border-bottom: 2px solid #6366f1; padding-bottom: 0.25rem; margin-top: 2rem; }
+  .canvas { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; }
+  .quadrant { border: 1px solid #cbd5e1; border-radius: 6px; padding: 0.5rem 1rem; break-inside: avoid; }
+  .quadrant h3 { margin: 0.5rem 0; text-transform: uppercase; font-size: 0.85rem; letter-spacing: 0.05em; }
+  .unverified { color: #64748b; }
+  .empty { color: #94a3b8; font-style: italic; }
+  blockquote { margin: 0.25rem 0 0.25rem 1rem; font-size: 0.85rem; color: #475569; border-left: 2px solid #a5b4fc; padding-left: 0.5rem; }
+  blockquote span { color: #94a3b8; font-size: 0.75rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+  td, th { text-align: left; vertical-align: top; padding: 0.25rem 0.5rem; border-bottom: 1px solid #e2e8f0; }
+  .time { color: #94a3b8; white-space: nowrap; font-family: monospace; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.intervieweeName)}</h1>
+<h2>Subject Profile</h2>
+${paragraphs(report.biography)}
+<h2>Empathy Canvas</h2>
+<div class="canvas">
+${quadrants}
+</div>
+<h2>Machine Intelligence Insights</h2>
+${paragraphs(report.machineInsights)}
+${report.notes || report.tags?.length ? `<h2>Researcher Notes</h2>
+${report.tags?.length ? `<p><strong>Tags:</strong> ${escapeHtml(report.tags.join(', '))}</p>` : ''}
+${paragraphs(report.notes || '')}` : ''}
+<h2>Transcript</h2>
+<table>${transcript}
+</table>
+</body>
+</html>
+`;
+};
+
+// Turns an interviewee name into something safe to use in a file name
+export const reportFileName = (report: InterviewReport, extension: string): string => {
+  const slug = report.intervieweeName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'interview';
+  return `${slug}-report.${extension}`;
+};
+
+/**
+ * Triggers a browser download of the given content.
+ */
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,169 @@
+import { GuideQuestion, InterviewGuide, TranscriptTurn } from '../types';
+
+/**
+ * Renders the discussion guide as a block for the interviewer's system instruction.
+ */
+export const formatGuideForPrompt = (guide: InterviewGuide): string => {
+  const sections = guide.sections.map((section, i) => {
+    const questions = section.questions.map(q => {
+      const probes = q.probes.length > 0 ? `\n          Probes if the answer is shallow: ${q.probes.join(' / ')}` : '';
+      return `        - ${q.mustAsk ? '[MUST ASK] ' : '[optional] '}${q.text}${probes}`;
+    }).join('\n');
+    return `      ${i + 1}. ${section.title} (about ${section.timeBudgetMinutes} min)\n${questions}`;
+  }).join('\n');
+
+  return `
+      Interview Guide (validated by the research team):
+${sections}
+
+      Guide rules:
+      - Work through the sections in order, respecting the approximate time budgets.
+      - Every [MUST ASK] question must be asked before the interview ends. Adapt the wording to your interview style, but keep its meaning.
+      - [optional] questions and probes are for when time allows or an answer needs more depth.
+      - The Empathy Canvas goal still applies: weave it into the guide rather than replacing the guide.`;
+};
+
+export const getGuideQuestions = (guide: InterviewGuide | undefined): GuideQuestion[] =>
+  guide ? guide.sections.flatMap(s => s.questions) : [];
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from',
+  'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their',
+  'them', 'there', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+  'with', 'would', 'you', 'your', 'about', 'tell', 'us', 'any', 'some',
+]);
+
+// Crude stemming is enough to match "onboarding" with "onboarded" and "tools" with "tool"
+const stem = (word: string) => word.replace(/(ing|ed|es|s)$/, '');
+
+// Stemmed words without stopwords, in order and with repeats; also used to rank research context
+export const contentWordList = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}']+/u)
+    .filter(w => w.length > 2 && !STOPWORDS.has(w))
+    .map(stem);
+
+const contentWords = (text: string): Set<string> => new Set(contentWordList(text));
+
+// Share of the question's content words the interviewer turn also used
+const overlap = (question: Set<string>, turn: Set<string>) => {
+  if (question.size === 0) return 0;
+  let shared = 0;
+  question.forEach(w => { if (turn.has(w)) shared += 1; });
+  return shared / question.size;
+};
+
+const COVERAGE_THRESHOLD = 0.5;
+
+export interface QuestionCoverage {
+  covered: boolean;
+  manual: boolean; // Ticked by the researcher rather than detected
+  turnIndex: number | null; // Interviewer turn that asked it
+}
+
+export interface SectionCoverage {
+  covered: number;
+  total: number;
+  mustAskCovered: number;
+  mustAskTotal: number;
+  elapsedMs: number; // Time the conversation spent on this section so far
+}
+
+export interface GuideCoverage {
+  questions: Record<string, QuestionCoverage>;
+  sections: Record<string, SectionCoverage>;
+  activeSectionId: string | null;
+}
+
+/**
+ * Estimates which guide questions the interviewer has asked by matching its turns
+ * against the question wording. The agent rephrases questions to fit the chosen
+ * style, so this is a heuristic; manual overrides from the researcher always win.
+ * Time between one interviewer turn and the next is attributed to the section of
+ * the question that turn matched best.
+ */
+export const computeGuideCoverage = (
+  guide: InterviewGuide,
+  transcript: TranscriptTurn[],
+  manuallyCovered: Set<string>,
+  now: number = Date.now()
+): GuideCoverage => {
+  const questions: Record<string, QuestionCoverage> = {};
+  const sections: Record<string, SectionCoverage> = {};
+  const questionWords = new Map<string, Set<string>>();
+  const sectionOf = new Map<string, string>();
+
+  guide.sections.forEach(section => {
+    sections[section.id] = { covered: 0, total: section.questions.length, mustAskCovered: 0, mustAskTotal: 0, elapsedMs: 0 };
+    section.questions.forEach(q => {
+      questions[q.id] = { covered: manuallyCovered.has(q.id), manual: manuallyCovered.has(q.id), turnIndex: null };
+      questionWords.set(q.id, contentWords(q.text));
+      sectionOf.set(q.id, section.id);
+    });
+  });
+
+  let activeSectionId: string | null = null;
+  let activeSince: number | null = null;
+
+  transcript.forEach((turn, index) => {
+    if (turn.speaker !== 'model') return;
+    const words = contentWords(turn.text);
+    let bestId: string | null = null;
+    let bestScore = 0;
+
+    for (const [id, qWords] of questionWords) {
+      const score = overlap(qWords, words);
+      if (score < COVERAGE_THRESHOLD) continue;
+      if (!questions[id].covered) {
+        questions[id] = { covered: true, manual: false, turnIndex: index };
+      }
+      if (score > bestScore) {
+        bestId = id;
+        bestScore = score;
+      }
+    }
+
+    if (bestId) {
+      if (activeSectionId && activeSince !== null) {
+        sections[activeSectionId].elapsedMs += turn.startTime - activeSince;
+      }
+      activeSectionId = sectionOf.get(bestId) ?? null;
+      activeSince = turn.startTime;
+    }
+  });
+
+  if (activeSectionId && activeSince !== null) {
+    sections[activeSectionId].elapsedMs += Math.max(0, now - activeSince);
+  }
+
+  guide.sections.forEach(section => {
+    section.questions.forEach(q => {
+      const summary = sections[section.id];
+      if (q.mustAsk) summary.mustAskTotal += 1;
+      if (questions[q.id].covered) {
+        summary.covered += 1;
+        if (q.mustAsk) summary.mustAskCovered += 1;
+      }
+    });
+  });
+
+  return { questions, sections, activeSectionId };
+};
+
+/**
+ * Drops blank questions, probes and sections left over from editing.
+ * Returns undefined when nothing usable remains.
+ */
+export const sanitizeGuide = (guide: InterviewGuide): InterviewGuide | undefined => {
+  const sections = guide.sections
+    .map(section => ({
+      ...section,
+      title: section.title.trim() || 'Untitled section',
+      questions: section.questions
+        .map(q => ({ ...q, text: q.text.trim(), probes: q.probes.map(p => p.trim()).filter(Boolean) }))
+        .filter(q => q.text),
+    }))
+    .filter(section => section.questions.length > 0);
+  return sections.length > 0 ? { sections } : undefined;
+};
@@ -0,0 +1,36 @@
+import { Campaign, DeepResearchData } from '../types';
+
+export interface LanguageOption {
+  code: string; // BCP-47, also passed to the live API for speech and transcription
+  name: string; // English name, used in prompts
+  nativeName: string;
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en-US', name: 'English', nativeName: 'English' },
+  { code: 'es-ES', name: 'Spanish (Spain)', nativeName: 'Español (España)' },
+  { code: 'es-US', name: 'Spanish (Latin America)', nativeName: 'Español (Latinoamérica)' },
+  { code: 'de-DE', name: 'German', nativeName: 'Deutsch' },
+  { code: 'ja-JP', name: 'Japanese', nativeName: '日本語' },
+  { code: 'fr-FR', name: 'French', nativeName: 'Français' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)', nativeName: 'Português (Brasil)' },
+];
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+export const getLanguageName = (code: string): string =>
+  LANGUAGES.find(l => l.code === code)?.name ?? code;
+
+// Studies saved before languages existed were English throughout
+export const getInterviewLanguage = (config: DeepResearchData): string => config.language ?? DEFAULT_LANGUAGE;
+export const getReportLanguage = (config: DeepResearchData): string => config.reportLanguage ?? DEFAULT_LANGUAGE;
+
+export const isEnglish = (code: string) => code.split('-')[0] === 'en';
+
+/**
+ * The study config as seen by one participant, with their language override applied.
+ */
+export const getParticipantConfig = (campaign: Campaign, participantId: string | null): DeepResearchData => {
+  const language = campaign.participants.find(p => p.id === participantId)?.language;
+  return language ? { ...campaign.config, language } : campaign.config;
+};
@@ -0,0 +1,59 @@
+import { DeepResearchData, InterviewGuide } from '../types';
+
+// Participants are booked for 30-minute slots
+export const DEFAULT_DURATION_MINUTES = 30;
+
+export const getDurationMinutes = (config: DeepResearchData): number =>
+  config.durationMinutes ?? DEFAULT_DURATION_MINUTES;
+
+// Long enough to summarise back and ask "anything else?" without rushing
+export const getWrapUpMinutes = (durationMinutes: number): number =>
+  Math.min(5, Math.max(2, Math.round(durationMinutes * 0.15)));
+
+export const getGuideMinutes = (guide: InterviewGuide | undefined): number =>
+  guide ? guide.sections.reduce((sum, section) => sum + section.timeBudgetMinutes, 0) : 0;
+
+export type PacingPhase = 'on-track' | 'halfway' | 'final-stretch' | 'wrap-up' | 'over';
+
+/**
+ * Elapsed time at which each phase begins. 'over' is the hard stop.
+ */
+export const getPacingCheckpoints = (durationMinutes: number): { phase: PacingPhase; atMs: number }[] => {
+  const durationMs = durationMinutes * 60_000;
+  return [
+    { phase: 'halfway', atMs: durationMs * 0.5 },
+    { phase: 'final-stretch', atMs: durationMs * 0.75 },
+    { phase: 'wrap-up', atMs: durationMs - getWrapUpMinutes(durationMinutes) * 60_000 },
+    { phase: 'over', atMs: durationMs },
+  ];
+};
+
+export const getPacingPhase = (elapsedMs: number, durationMinutes: number): PacingPhase =>
+  getPacingCheckpoints(durationMinutes).reduce<PacingPhase>((phase, checkpoint) => elapsedMs >= checkpoint.atMs ? checkpoint.phase : phase, 'on-track');
+
+/**
+ * Private time update for the interviewer when a new phase begins.
+ * remainingMustAsk lists guide questions that have not been covered yet.
+ */
+export const formatPacingNote = (phase: PacingPhase, elapsedMs: number, durationMinutes: number, remainingMustAsk: string[]): string | null => {
+  const minutesLeft = Math.max(0, Math.round(durationMinutes - elapsedMs / 60_000));
+  const mustAsk = remainingMustAsk.length > 0
+    ? ` Must-ask questions not covered yet: ${remainingMustAsk.map(q => `"${q}"`).join('; ')}.`
+    : '';
+
+  switch (phase) {
+    case 'halfway':
+      return `Time check: about ${minutesLeft} of ${durationMinutes} minutes left.${mustAsk || ' Keep a steady pace.'}`;
+    case 'final-stretch':
+      return `Time check: about ${minutesLeft} minutes left. Prioritise what matters most and skip lower-priority probes.${mustAsk}`;
+    case 'wrap-up':
+      return `Time to wrap up: about ${minutesLeft} minutes left.${mustAsk ? `${mustAsk} If one of them is essential, ask it briefly first.` : ''} Summarise back to the participant the main things you heard in two or three sentences, ask whether they got that right and whether there is anything else they would like to add, then thank them and close the interview. Do not open new topics.`;
+    default:
+      return null;
+  }
+};
+
+export const formatClock = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,72 @@
+import { CanvasItem, CanvasQuadrant, InterviewQuality, InterviewReport, QuestionFlag, TranscriptTurn } from '../types';
+import { normalizeForMatch, QUADRANT_KEYS } from './canvasUtils';
+
+// Beyond these, a session's findings are treated as shaped by the interviewer
+export const LEADING_QUESTION_LIMIT = 2;
+export const INTERVIEWER_TALK_SHARE_LIMIT = 0.4;
+
+/**
+ * The parts of the review counted straight from the transcript rather than judged by the
+ * model. Talk share is by characters, which works for languages written without spaces.
+ */
+export const measureInterviewer = (turns: TranscriptTurn[]): Pick<InterviewQuality, 'questionCount' | 'interviewerTalkShare'> => {
+  const interviewerTurns = turns.filter(turn => turn.speaker === 'model');
+  const interviewerChars = interviewerTurns.reduce((sum, turn) => sum + turn.text.length, 0);
+  const totalChars = turns.filter(turn => turn.speaker !== 'system').reduce((sum, turn) => sum + turn.text.length, 0);
+  return {
+    questionCount: interviewerTurns.filter(turn => /[?？؟]/.test(turn.text)).length,
+    interviewerTalkShare: totalChars > 0 ? interviewerChars / totalChars : 0,
+  };
+};
+
+const isInterviewerTurnWith = (turn: TranscriptTurn | undefined, normalizedQuote: string) =>
+  !!turn && turn.speaker === 'model' && normalizeForMatch(turn.text).includes(normalizedQuote);
+
+/**
+ * Keeps flags whose quote is really something the interviewer said, re-pointing those
+ * cited with the wrong index, and drops repeats of the same turn.
+ */
+export const verifyQuestionFlags = (flags: QuestionFlag[], turns: TranscriptTurn[]): QuestionFlag[] => {
+  const seen = new Set<number>();
+  return (flags || []).flatMap((flag): QuestionFlag[] => {
+    const normalizedQuote = normalizeForMatch(flag.quote || '');
+    if (!normalizedQuote) return [];
+    const turnIndex = isInterviewerTurnWith(turns[flag.turnIndex], normalizedQuote)
+      ? flag.turnIndex
+      : turns.findIndex(turn => isInterviewerTurnWith(turn, normalizedQuote));
+    if (turnIndex === -1 || seen.has(turnIndex)) return [];
+    seen.add(turnIndex);
+    return [{ ...flag, turnIndex }];
+  });
+};
+
+/**
+ * Canvas points that rest on an answer to a leading question: at least one of their
+ * quotes comes from the participant's reply right after it.
+ */
+export const getLedCanvasItems = (report: InterviewReport): { quadrant: CanvasQuadrant; item: CanvasItem }[] => {
+  const ledTurns = new Set<number>();
+  (report.quality?.leadingQuestions || []).forEach(flag => {
+    const reply = report.transcript.findIndex((turn, i) => i > flag.turnIndex && turn.speaker === 'user');
+    if (reply !== -1) ledTurns.add(reply);
+  });
+  return QUADRANT_KEYS.flatMap(quadrant =>
+    report.canvas[quadrant]
+      .filter(item => item.evidence.some(ev => ledTurns.has(ev.turnIndex)))
+      .map(item => ({ quadrant, item }))
+  );
+};
+
+/**
+ * Reasons to read this session's findings with care, empty when there are none.
+ */
+export const getQualityWarnings = (quality: InterviewQuality): string[] => {
+  const warnings: string[] = [];
+  if (quality.leadingQuestions.length > LEADING_QUESTION_LIMIT) {
+    warnings.push(`${quality.leadingQuestions.length} leading questions: the participant may have agreed with the interviewer's framing rather than giving their own view.`);
+  }
+  if (quality.interviewerTalkShare > INTERVIEWER_TALK_SHARE_LIMIT) {
+    warnings.push(`The interviewer did ${Math.round(quality.interviewerTalkShare * 100)}% of the talking, which leaves little room for the participant.`);
+  }
+  return warnings;
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewMode, InterviewReport, RedactionMode } from '../types';
+import { createEmptyCanvas } from './canvasUtils';
+import { createReportRedactor, redactReport, Redactor } from './redaction';
+
+const redact = (text: string, mode: RedactionMode = RedactionMode.MASK) =>
+  new Redactor({ mode, customTerms: [] }, [text]).redact(text).text;
+
+describe('Redactor name detection', () => {
+  it.each([
+    ['My name is Alex Rivera and I run the clinic.', 'My name is [Person] and I run the clinic.'],
+    ['Call me Priya, everyone does.', 'Call me [Person], everyone does.'],
+    ["Hi, I'm Tomasz.", "Hi, I'm [Person]."],
+    ['This is Dana from the front desk.', 'This is [Person] from the front desk.'],
+  ])('learns the name introduced in "%s"', (text, expected) => {
+    expect(redact(text)).toBe(expected);
+  });
+
+  it.each([
+    'I am Spanish, so the forms confuse me.',
+    "I'm Japanese and work remotely.",
+    'This is Monday for you, the busiest day.',
+    "I'm March-born, like my dad.",
+    'This is September all over again.',
+  ])('leaves "%s" alone', (text) => {
+    expect(redact(text)).toBe(text);
+  });
+
+  it('still learns names that only share a spelling with a month after a name cue', () => {
+    expect(redact('My name is June. June handles billing.')).toBe('My name is [Person]. [Person] handles billing.');
+  });
+
+  it('uses the same pseudonym for a first name and the full name', () => {
+    expect(redact('My name is Alex Rivera. Alex is fine.', RedactionMode.PSEUDONYMIZE)).toBe('My name is Person 1. Person 1 is fine.');
+  });
+});
+
+describe('redactReport', () => {
+  const report: InterviewReport = {
+    intervieweeName: 'Alex Rivera',
+    biography: 'Alex works at Northwind Clinic.',
+    machineInsights: 'Alex fears double bookings.',
+    canvas: createEmptyCanvas(),
+    transcript: [{ speaker: 'user', text: 'My name is Alex Rivera and I work at Northwind Clinic.', startTime: 0, endTime: 0, mode: InterviewMode.TEXT, partial: false }],
+    notes: 'Ask Alex about Project Falcon.',
+    tags: ['Alex', 'Northwind Clinic', 'project falcon', 'scheduling'],
+  };
+
+  it('redacts notes and tags along with the generated text', () => {
+    const settings = { mode: RedactionMode.MASK, customTerms: ['Project Falcon'] };
+    const redacted = redactReport(report, createReportRedactor(report, settings));
+    expect(redacted.intervieweeName).toBe('[Person]');
+    expect(redacted.biography).toBe('[Person] works at [Company].');
+    expect(redacted.notes).toBe('Ask [Person] about [Term].');
+    expect(redacted.tags).toEqual(['[Person]', '[Company]', '[Term]', 'scheduling']);
+  });
+});
@@ -0,0 +1,231 @@
+import { CanvasItem, EmpathyCanvas, InterviewQuality, InterviewReport, QuestionFlag, RedactionMode, RedactionSettings, TranscriptTurn } from '../types';
+import { QUADRANT_KEYS } from './canvasUtils';
+
+export type PiiCategory = 'name' | 'email' | 'phone' | 'address' | 'company' | 'custom';
+
+export interface PiiMatch {
+  start: number;
+  end: number;
+  category: PiiCategory;
+  value: string;
+  replacement: string;
+}
+
+export interface TurnRedaction {
+  turnIndex: number;
+  original: string;
+  matches: PiiMatch[];
+}
+
+const CATEGORY_LABELS: Record<PiiCategory, string> = {
+  name: 'Person',
+  email: 'Email',
+  phone: 'Phone',
+  address: 'Address',
+  company: 'Company',
+  custom: 'Term',
+};
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,4}/g;
+const ADDRESS_PATTERN = /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Way|Court|Ct|Place|Pl|Square|Sq)\b/g;
+
+// Phrases that introduce a person or an employer; the capitalised words after them are collected
+const NAME_CUE = /\b(?:[Mm]y name is|[Nn]ame[’']s|[Cc]all me|(?:Mr|Mrs|Ms|Dr|Prof)\.?|[Mm]y (?:manager|boss|colleague|coworker|co-worker|wife|husband|partner|friend|son|daughter|mother|father|mum|mom|dad|brother|sister)(?: is)?)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g;
+// "I'm" and "this is" also introduce days, months and nationalities, which are skipped
+const SELF_INTRO_CUE = /\b(?:I am|I[’']m|[Tt]his is)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g;
+const COMPANY_CUE = /\b(?:work|works|worked|working|employed|job) (?:at|for|with)\s+([A-Z][\w&'-]*(?:\s+[A-Z][\w&'-]*){0,2})/g;
+const COMPANY_SUFFIX = /\b([A-Z][\w&'-]*(?:\s+[A-Z][\w&'-]*){0,2})\s+(?:Inc|Ltd|LLC|GmbH|Corp|Corporation|Company|Group|plc|AG)\b/g;
+
+// Capitalised words that follow "I'm" or "this is" without being names
+const NOT_NAMES = new Set([
+  'Not', 'Just', 'Really', 'Very', 'So', 'Sure', 'Sorry', 'Happy', 'Glad', 'Fine', 'Good', 'Okay', 'Ok', 'Here',
+  'The', 'A', 'An', 'It', 'That', 'What', 'Also', 'Still', 'Actually', 'Honestly', 'Yes', 'No', 'Well',
+]);
+
+// Capitalised words after "I'm" or "this is" that describe the speaker or the date instead of naming anyone
+const NOT_INTRODUCTIONS = new Set([
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'American', 'Argentinian', 'Australian', 'Austrian', 'Belgian', 'Brazilian', 'British', 'Canadian', 'Chilean', 'Chinese',
+  'Colombian', 'Czech', 'Danish', 'Dutch', 'Egyptian', 'English', 'Filipino', 'Finnish', 'French', 'German', 'Greek',
+  'Hungarian', 'Indian', 'Indonesian', 'Irish', 'Israeli', 'Italian', 'Japanese', 'Kenyan', 'Korean', 'Mexican',
+  'Moroccan', 'Nigerian', 'Norwegian', 'Pakistani', 'Peruvian', 'Polish', 'Portuguese', 'Romanian', 'Russian',
+  'Scottish', 'Spanish', 'Swedish', 'Swiss', 'Thai', 'Turkish', 'Ukrainian', 'Vietnamese', 'Welsh',
+]);
+
+// Our own replacements must not be detected again when a report is redacted twice
+const REPLACEMENT_PATTERN = new RegExp(`^(?:\\[(?:${Object.values(CATEGORY_LABELS).join('|')})\\]|(?:${Object.values(CATEGORY_LABELS).join('|')}) \\d+)$`, 'i');
+
+// Label words are never learned as names or employers, e.g. from "I work at Company 1"
+const isLabel = (value: string) => Object.values(CATEGORY_LABELS).includes(value.trim().split(/\s+/)[0]);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const isRedactionEnabled = (settings: RedactionSettings | undefined): settings is RedactionSettings =>
+  !!settings && settings.mode !== RedactionMode.OFF;
+
+/**
+ * Detects and replaces PII consistently across a body of text. Names and employers are
+ * learned from the whole corpus first, so a first name mentioned before the participant
+ * introduced themselves is still caught. Pseudonyms stay stable for the redactor's lifetime.
+ */
+export class Redactor {
+  private settings: RedactionSettings;
+  private names = new Set<string>();
+  private companies = new Set<string>();
+  private pseudonyms = new Map<string, string>();
+  private counters: Record<PiiCategory, number> = { name: 0, email: 0, phone: 0, address: 0, company: 0, custom: 0 };
+
+  constructor(settings: RedactionSettings, corpus: string[], knownNames: string[] = []) {
+    this.settings = settings;
+    knownNames.forEach(name => this.learnName(name));
+    corpus.forEach(text => {
+      for (const match of text.matchAll(NAME_CUE)) this.learnName(match[1]);
+      for (const match of text.matchAll(SELF_INTRO_CUE)) {
+        if (!NOT_INTRODUCTIONS.has(match[1].split(/\s+/)[0])) this.learnName(match[1]);
+      }
+      for (const match of text.matchAll(COMPANY_CUE)) this.learnCompany(match[1]);
+      for (const match of text.matchAll(COMPANY_SUFFIX)) this.learnCompany(match[0]);
+    });
+  }
+
+  private learnCompany(company: string) {
+    if (!isLabel(company)) this.companies.add(company.trim());
+  }
+
+  private learnName(name: string) {
+    if (isLabel(name)) return;
+    const parts = name.trim().split(/\s+/).filter(part => part && !NOT_NAMES.has(part));
+    if (parts.length === 0) return;
+    this.names.add(parts.join(' '));
+    parts.forEach(part => { if (part.length > 2) this.names.add(part); });
+  }
+
+  detect(text: string): PiiMatch[] {
+    const found: Omit<PiiMatch, 'replacement'>[] = [];
+    const collect = (pattern: RegExp, category: PiiCategory, accept: (value: string) => boolean = () => true) => {
+      for (const match of text.matchAll(pattern)) {
+        const value = match[0];
+        if (match.index !== undefined && accept(value) && !REPLACEMENT_PATTERN.test(value)) {
+          found.push({ start: match.index, end: match.index + value.length, category, value });
+        }
+      }
+    };
+    const literal = (terms: Iterable<string>, flags: string) => {
+      const sorted = Array.from(terms).filter(Boolean).sort((a, b) => b.length - a.length);
+      return sorted.length > 0 ? new RegExp(`\\b(?:${sorted.map(escapeRegExp).join('|')})\\b`, flags) : null;
+    };
+
+    collect(EMAIL_PATTERN, 'email');
+    collect(PHONE_PATTERN, 'phone', value => value.replace(/\D/g, '').length >= 8);
+    collect(ADDRESS_PATTERN, 'address');
+    const custom = literal(this.settings.customTerms.map(t => t.trim()), 'gi');
+    if (custom) collect(custom, 'custom');
+    const companies = literal(this.companies, 'g');
+    if (companies) collect(companies, 'company');
+    const names = literal(this.names, 'g');
+    if (names) collect(names, 'name');
+
+    // Earlier and longer matches win; categories above take precedence on equal spans
+    const sorted = found.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+    const accepted: PiiMatch[] = [];
+    for (const match of sorted) {
+      const last = accepted[accepted.length - 1];
+      if (last && match.start < last.end) continue;
+      accepted.push({ ...match, replacement: this.replacementFor(match.category, match.value) });
+    }
+    return accepted;
+  }
+
+  private replacementFor(category: PiiCategory, value: string): string {
+    const label = CATEGORY_LABELS[category];
+    if (this.settings.mode === RedactionMode.MASK) return `[${label}]`;
+
+    // A first name on its own maps to the pseudonym of the full name it belongs to
+    const key = `${category}:${value.toLowerCase()}`;
+    if (!this.pseudonyms.has(key)) {
+      const owner = category === 'name'
+        ? Array.from(this.pseudonyms.keys()).find(k => k.startsWith('name:') && k.slice(5).split(' ').includes(value.toLowerCase()))
+        : undefined;
+      this.pseudonyms.set(key, owner ? this.pseudonyms.get(owner)! : `${label} ${++this.counters[category]}`);
+    }
+    return this.pseudonyms.get(key)!;
+  }
+
+  redact(text: string): { text: string; matches: PiiMatch[] } {
+    const matches = this.detect(text);
+    let output = '';
+    let cursor = 0;
+    matches.forEach(match => {
+      output += text.slice(cursor, match.start) + match.replacement;
+      cursor = match.end;
+    });
+    return { text: output + text.slice(cursor), matches };
+  }
+}
+
+export const createTranscriptRedactor = (turns: TranscriptTurn[], settings: RedactionSettings, knownNames: string[] = []) =>
+  new Redactor(settings, turns.filter(t => t.speaker !== 'system').map(t => t.text), knownNames);
+
+/**
+ * Redacts every turn and reports what changed, for the review panel.
+ */
+export const redactTranscript = (turns: TranscriptTurn[], redactor: Redactor): { turns: TranscriptTurn[]; changes: TurnRedaction[] } => {
+  const changes: TurnRedaction[] = [];
+  const redacted = turns.map((turn, turnIndex) => {
+    if (turn.speaker === 'system') return turn;
+    const { text, matches } = redactor.redact(turn.text);
+    if (matches.length === 0) return turn;
+    changes.push({ turnIndex, original: turn.text, matches });
+    return { ...turn, text };
+  });
+  return { turns: redacted, changes };
+};
+
+/**
+ * Redacts the generated fields present in a patch and nothing else, so regenerating one
+ * section leaves the researcher's notes and edits as they were.
+ */
+export const redactReportPatch = (patch: Partial<InterviewReport>, redactor: Redactor): Partial<InterviewReport> => {
+  const clean = (text: string) => redactor.redact(text).text;
+  const cleanItem = (item: CanvasItem): CanvasItem => ({
+    ...item,
+    text: clean(item.text),
+    evidence: item.evidence.map(ev => ({ ...ev, quote: clean(ev.quote) })),
+  });
+  const cleanFlag = (flag: QuestionFlag): QuestionFlag => ({ ...flag, quote: clean(flag.quote), reason: clean(flag.reason), rewrite: clean(flag.rewrite) });
+  const cleanQuality = (quality: InterviewQuality): InterviewQuality => ({
+    ...quality,
+    summary: clean(quality.summary),
+    leadingQuestions: quality.leadingQuestions.map(cleanFlag),
+    doubleBarreledQuestions: quality.doubleBarreledQuestions.map(cleanFlag),
+    styleAdherence: { ...quality.styleAdherence, comment: clean(quality.styleAdherence.comment) },
+    suggestions: quality.suggestions.map(clean),
+  });
+  const cleanCanvas = (canvas: EmpathyCanvas): EmpathyCanvas =>
+    Object.fromEntries(QUADRANT_KEYS.map(key => [key, (canvas[key] ?? []).map(cleanItem)])) as unknown as EmpathyCanvas;
+  return {
+    ...patch,
+    ...(patch.intervieweeName !== undefined && { intervieweeName: clean(patch.intervieweeName) }),
+    ...(patch.biography !== undefined && { biography: clean(patch.biography) }),
+    ...(patch.machineInsights !== undefined && { machineInsights: clean(patch.machineInsights) }),
+    ...(patch.quality && { quality: cleanQuality(patch.quality) }),
+    ...(patch.canvas && { canvas: cleanCanvas(patch.canvas) }),
+  };
+};
+
+/**
+ * Redacts everything a shared report exposes: name, biography, insights, canvas, notes, tags and transcript.
+ */
+export const redactReport = (report: InterviewReport, redactor: Redactor): InterviewReport => ({
+  ...report,
+  ...redactReportPatch(report, redactor),
+  notes: report.notes && redactor.redact(report.notes).text,
+  tags: report.tags && report.tags.map(tag => redactor.redact(tag).text),
+  transcript: redactTranscript(report.transcript, redactor).turns,
+});
+
+// For reports that were analysed without redaction, e.g. before it was switched on
+export const createReportRedactor = (report: InterviewReport, settings: RedactionSettings) =>
+  new Redactor(settings, [report.biography, ...report.transcript.map(t => t.text)], [report.intervieweeName]);
@@ -0,0 +1,66 @@
+import { CanvasQuadrant, ContentOrigin, InterviewReport, RegenerableSection, ReportTextField, ReportVersion } from '../types';
+import { getQuadrantLabel } from './canvasUtils';
+
+// Older versions are dropped beyond this, keeping the original generated report
+export const MAX_REPORT_VERSIONS = 50;
+
+export const getRegenerableSectionLabel = (section: RegenerableSection): string =>
+  section === 'profile' ? 'Subject Profile'
+  : section === 'insights' ? 'Machine Insights'
+  : section === 'quality' ? 'Interview Quality'
+  : getQuadrantLabel(section);
+
+const snapshot = (report: InterviewReport, version: number, origin: ContentOrigin, summary: string): ReportVersion => {
+  const { transcript, ...content } = report;
+  return { version, createdAt: Date.now(), origin, summary, report: content };
+};
+
+export const createReportHistory = (report: InterviewReport): ReportVersion[] =>
+  [snapshot(report, 1, 'ai', 'Generated report')];
+
+/**
+ * Appends a snapshot of the changed report to the history. A report saved before
+ * versioning existed has no history yet, so `previous` is recorded first as the original.
+ */
+export const addReportVersion = (
+  history: ReportVersion[],
+  previous: InterviewReport,
+  report: InterviewReport,
+  origin: ContentOrigin,
+  summary: string
+): ReportVersion[] => {
+  const base = history.length > 0 ? history : createReportHistory(previous);
+  const next = [...base, snapshot(report, base[base.length - 1].version + 1, origin, summary)];
+  return next.length > MAX_REPORT_VERSIONS ? [next[0], ...next.slice(next.length - MAX_REPORT_VERSIONS + 1)] : next;
+};
+
+export const restoreReportVersion = (report: InterviewReport, version: ReportVersion): InterviewReport =>
+  ({ ...version.report, transcript: report.transcript });
+
+export const editReportField = (report: InterviewReport, field: ReportTextField, value: string): InterviewReport => ({
+  ...report,
+  [field]: value,
+  editedFields: Array.from(new Set([...(report.editedFields || []), field])),
+});
+
+export const editCanvasItem = (report: InterviewReport, quadrant: CanvasQuadrant, index: number, text: string): InterviewReport => ({
+  ...report,
+  canvas: {
+    ...report.canvas,
+    [quadrant]: report.canvas[quadrant].map((item, i) => i === index ? { ...item, text, origin: 'researcher' } : item),
+  },
+});
+
+// Added points have no quote behind them; they are the researcher's own observation
+export const addCanvasItem = (report: InterviewReport, quadrant: CanvasQuadrant, text: string): InterviewReport => ({
+  ...report,
+  canvas: {
+    ...report.canvas,
+    [quadrant]: [...report.canvas[quadrant], { text, evidence: [], verified: false, origin: 'researcher' }],
+  },
+});
+
+export const removeCanvasItem = (report: InterviewReport, quadrant: CanvasQuadrant, index: number): InterviewReport => ({
+  ...report,
+  canvas: { ...report.canvas, [quadrant]: report.canvas[quadrant].filter((_, i) => i !== index) },
+});
@@ -0,0 +1,154 @@
+import { InterviewMode, Speaker, TranscriptTurn } from '../types';
+
+/**
+ * Drops system messages (connection notices, errors); they are not part of the interview.
+ */
+export const getConversationTurns = (turns: TranscriptTurn[]): TranscriptTurn[] =>
+  turns.filter(t => t.speaker !== 'system');
+
+/**
+ * Formats a turn's offset from the start of the interview as m:ss.
+ */
+export const formatOffset = (time: number, origin: number): string => {
+  const totalSeconds = Math.max(0, Math.round((time - origin) / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const getSpeakerLabel = (speaker: Speaker): string =>
+  speaker === 'user' ? 'Participant' : speaker === 'model' ? 'Interviewer' : 'System';
+
+/**
+ * Flattens the conversation into the "ROLE: text" form, for prompts that do not need timing.
+ */
+export const formatTranscript = (turns: TranscriptTurn[]): string =>
+  getConversationTurns(turns)
+    .map(t => `${t.speaker.toUpperCase()}: ${t.text}`)
+    .join('\n');
+
+/**
+ * Prefixes every turn with its index and time offset so the model can cite where a
+ * quote came from. Expects conversation turns only. A window of a longer transcript
+ * passes its first index and the interview start so both stay global.
+ */
+export const formatNumberedTranscript = (
+  turns: TranscriptTurn[],
+  firstIndex = 0,
+  origin: number = turns[0]?.startTime ?? 0
+): string =>
+  turns
+    .map((t, i) => `[${firstIndex + i}] (${formatOffset(t.startTime, origin)}) ${t.speaker.toUpperCase()}${t.partial ? ' (cut off)' : t.interrupted ? ' (interrupted by participant)' : ''}: ${t.text}`)
+    .join('\n');
+
+export interface TranscriptWindow {
+  firstIndex: number;
+  turns: TranscriptTurn[];
+}
+
+/**
+ * Splits a long conversation into consecutive windows of at most roughly maxChars of
+ * text, breaking only between turns. Short conversations come back as one window.
+ */
+export const splitTranscript = (turns: TranscriptTurn[], maxChars: number): TranscriptWindow[] => {
+  const windows: TranscriptWindow[] = [];
+  let current: TranscriptWindow = { firstIndex: 0, turns: [] };
+  let size = 0;
+  turns.forEach((turn, i) => {
+    if (current.turns.length > 0 && size + turn.text.length > maxChars) {
+      windows.push(current);
+      current = { firstIndex: i, turns: [] };
+      size = 0;
+    }
+    current.turns.push(turn);
+    size += turn.text.length;
+  });
+  if (current.turns.length > 0) windows.push(current);
+  return windows;
+};
+
+/**
+ * Closes the turn: no more fragments will be merged into it.
+ */
+export const finalizeTurn = (turn: TranscriptTurn): TranscriptTurn =>
+  turn.partial ? { ...turn, partial: false } : turn;
+
+/**
+ * Adds a fragment to the conversation. Voice fragments from the same speaker are merged
+ * into the open turn; anything else closes it and starts a new one.
+ */
+export const appendToTranscript = (
+  turns: TranscriptTurn[],
+  speaker: Speaker,
+  text: string,
+  mode: InterviewMode,
+  now: number = Date.now()
+): TranscriptTurn[] => {
+  const last = turns[turns.length - 1];
+
+  // If the last turn is still open for the same speaker, append the text instead of a new turn
+  if (last && last.partial && last.speaker === speaker && last.mode === mode) {
+    // Ensure we don't double-space if fragments already have them
+    const needsSpace = last.text.length > 0 && !last.text.endsWith(' ') && !text.startsWith(' ');
+    const merged = { ...last, text: last.text + (needsSpace ? ' ' : '') + text, endTime: now };
+    return [...turns.slice(0, -1), merged];
+  }
+
+  const closed = last ? [...turns.slice(0, -1), finalizeTurn(last)] : turns;
+  const isStreamed = mode === InterviewMode.VOICE && speaker !== 'system';
+  return [...closed, { speaker, text, startTime: now, endTime: now, mode, partial: isStreamed }];
+};
+
+// Cuts at the word boundary nearest to the given share of the text
+const cutAtFraction = (text: string, fraction: number): string => {
+  if (fraction >= 1) return text;
+  const target = Math.round(text.length * Math.max(0, fraction));
+  const boundary = text.lastIndexOf(' ', target);
+  return text.slice(0, boundary === -1 ? 0 : boundary).trimEnd();
+};
+
+/**
+ * Marks the interviewer's latest turn as interrupted and cuts its text back to the part
+ * the participant heard. Transcription runs ahead of playback, so heardFraction (the
+ * share of the turn's audio that was played) is applied to the text.
+ */
+export const interruptModelTurn = (turns: TranscriptTurn[], heardFraction: number, now: number = Date.now()): TranscriptTurn[] => {
+  let index = turns.length - 1;
+  while (index >= 0 && turns[index].speaker !== 'model') index--;
+  if (index === -1 || turns[index].interrupted) return turns;
+
+  const turn = turns[index];
+  const heard = cutAtFraction(turn.text, heardFraction);
+  const interrupted = { ...turn, text: heard ? `${heard}...` : '...', endTime: now, partial: false, interrupted: true };
+  return [...turns.slice(0, index), interrupted, ...turns.slice(index + 1)];
+};
+
+/**
+ * Closes the latest turn when it is the interviewer's, so its next response starts a new turn.
+ */
+export const finalizeModelTurn = (turns: TranscriptTurn[]): TranscriptTurn[] => {
+  const last = turns[turns.length - 1];
+  return last?.speaker === 'model' && last.partial ? [...turns.slice(0, -1), finalizeTurn(last)] : turns;
+};
+
+type LegacyLogMessage = { role: Speaker; text: string; timestamp: number };
+
+/**
+ * Earlier versions stored the transcript as a "ROLE: text" string, or as untyped
+ * { role, text, timestamp } log messages. Both are upgraded to turns.
+ */
+export const upgradeTranscript = (legacy: unknown, mode: InterviewMode): TranscriptTurn[] => {
+  if (typeof legacy === 'string') {
+    return legacy.split('\n').flatMap((line): TranscriptTurn[] => {
+      const match = line.match(/^(USER|MODEL):\s?(.*)$/);
+      if (!match) return [];
+      return [{ speaker: match[1].toLowerCase() as Speaker, text: match[2], startTime: 0, endTime: 0, mode, partial: false }];
+    });
+  }
+  if (!Array.isArray(legacy)) return [];
+  return legacy.map((entry: TranscriptTurn | LegacyLogMessage) =>
+    'speaker' in entry
+      ? entry
+      : { speaker: entry.role, text: entry.text, startTime: entry.timestamp, endTime: entry.timestamp, mode, partial: false }
+  );
+};